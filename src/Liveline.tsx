@@ -1,4 +1,12 @@
-import { memo, useMemo, useState, useRef } from "react";
+import {
+  forwardRef,
+  memo,
+  type ForwardedRef,
+  useImperativeHandle,
+  useMemo,
+  useState,
+  useRef,
+} from "react";
 import {
   LayoutChangeEvent,
   Pressable,
@@ -26,6 +34,7 @@ import { Gesture, GestureDetector } from "react-native-gesture-handler";
 import Animated, {
   runOnJS,
   useAnimatedProps,
+  useAnimatedReaction,
   useAnimatedStyle,
   useDerivedValue,
   useSharedValue,
@@ -33,13 +42,22 @@ import Animated, {
   type SharedValue,
 } from "react-native-reanimated";
 
-import { derivePalette } from "./theme";
+import {
+  derivePalette,
+  INDICATOR_COLORS,
+  resolveSeriesPalettes,
+  seriesColor,
+} from "./theme";
 import type {
+  ChartMode,
   DegenOptions,
+  LivelineHandle,
   LivelineProps,
   LivelineWindowControlsRenderProps,
+  MarkerShape,
   Momentum,
   Padding,
+  Palette,
   WindowOption,
   WindowStyle,
 } from "./types";
@@ -56,13 +74,31 @@ import {
   blendBullBear,
 } from "./draw/candlestick";
 import {
-  MAX_ORDERBOOK_LABELS,
+  resolveOrderbookOptions,
   type OrderbookLabelSlot,
 } from "./draw/orderbook";
+import { MAX_INDICATORS } from "./draw/indicators";
+import {
+  addMarkerGlyph,
+  hitTestMarkers,
+  INITIAL_MARKER_SLOTS,
+  MARKER_SIZE,
+  type MarkerSlot,
+} from "./draw/markers";
+import type { MultiCrosshairEntry } from "./draw/crosshair";
+import {
+  INITIAL_TIME_REGION_SLOTS,
+  type TimeRegionSlot,
+} from "./draw/timeRegions";
+import { HEATMAP_LEVELS } from "./draw/heatmap";
+import { fromSessionTime, toSessionTime } from "./draw/sessions";
+import type { PriceBandSlot, ReferenceLineSlot } from "./draw/referenceLines";
+import { MAX_OSCILLATOR_GRID_LABELS } from "./draw/oscillator";
 import { LOADING_AMPLITUDE_RATIO } from "./draw/loadingShape";
 import {
   MAX_GRID_LABELS,
   MAX_TIME_LABELS,
+  SUB_PANE_GAP,
   useLivelineEngine,
 } from "./useLivelineEngine";
 
@@ -81,6 +117,18 @@ const X_LABEL_SLOTS = MAX_TIME_LABELS;
 const AXIS_FONT_SIZE = 10;
 const BADGE_HEIGHT = BADGE_LINE_H + BADGE_PAD_Y * 2;
 const LAYOUT_EPSILON = 0.5;
+// Offsets closer to live than this snap back (matches the engine threshold)
+const SCROLL_LIVE_SNAP_SECS = 0.5;
+// Gutter drag: a full plot height of drag scales the range by e^2
+const Y_STRETCH_PER_PLOT = 2;
+const Y_STRETCH_MIN = 0.1;
+const Y_STRETCH_MAX = 20;
+// Vertical travel before a gutter touch becomes a drag, so a double tap on
+// the gutter still resets the scale. Below the pan gesture's default 10pt
+// activation distance, so the drag still beats pan there.
+const Y_AXIS_DRAG_SLOP_PX = 6;
+// Indicator crosshair row sits this far below the tooltip baseline
+const INDICATOR_ROW_HEIGHT = 16;
 
 interface GridSlot {
   key: number;
@@ -181,6 +229,9 @@ interface AxisYLabelProps {
   color: string;
   x: number;
   font: ReturnType<typeof matchFont>;
+  // Right-align on `x` (left value axis), estimated from `charWidth`
+  alignRight?: boolean;
+  charWidth?: number;
 }
 
 const AxisYLabel = memo(function AxisYLabel({
@@ -189,6 +240,8 @@ const AxisYLabel = memo(function AxisYLabel({
   color,
   x,
   font,
+  alignRight = false,
+  charWidth = 6.2,
 }: AxisYLabelProps) {
   const text = useDerivedValue(() => {
     "worklet";
@@ -196,6 +249,11 @@ const AxisYLabel = memo(function AxisYLabel({
     return slot?.text ?? "";
   }, [index]);
 
+  const labelX = useDerivedValue(() => {
+    "worklet";
+    return alignRight ? x - text.value.length * charWidth : x;
+  }, [alignRight, x, charWidth]);
+
   const y = useDerivedValue(() => {
     "worklet";
     const slot = slotsSV.value[index];
@@ -214,7 +272,7 @@ const AxisYLabel = memo(function AxisYLabel({
 
   return (
     <SkiaText
-      x={x}
+      x={labelX}
       y={y}
       text={text}
       font={font}
@@ -555,6 +613,8 @@ interface CandleCrosshairLabelProps {
   hSV: SharedValue<string>;
   lSV: SharedValue<string>;
   cSV: SharedValue<string>;
+  vSV: SharedValue<string>;
+  rawSV: SharedValue<string>;
   timeSV: SharedValue<string>;
   bullSV: SharedValue<number>;
   leftBound: number;
@@ -577,6 +637,8 @@ const CandleCrosshairLabel = memo(function CandleCrosshairLabel({
   hSV,
   lSV,
   cSV,
+  vSV,
+  rawSV,
   timeSV,
   bullSV,
   leftBound,
@@ -603,7 +665,8 @@ const CandleCrosshairLabel = memo(function CandleCrosshairLabel({
 
   // Build text segments:
   // Candle mode (lineModeProg <= 0.5): "O 123  H 456  L 78  C 90  ·  12:34:56"
-  //   or condensed: "C 90  ·  12:34:56"
+  //   or condensed: "C 90  ·  12:34:56", both followed by "  V 1.2K" when
+  //   the volume pane is on
   // Line mode (lineModeProg > 0.5): "90  ·  12:34:56" (just value + time, web pattern)
   const fullText = useDerivedValue(() => {
     "worklet";
@@ -611,6 +674,7 @@ const CandleCrosshairLabel = memo(function CandleCrosshairLabel({
     if (lineModeProgressSV.value > 0.5) {
       return cSV.value;
     }
+    const volumeText = vSV.value ? "  V " + vSV.value : "";
     if (isWide) {
       return (
         "O " +
@@ -620,10 +684,11 @@ const CandleCrosshairLabel = memo(function CandleCrosshairLabel({
         "  L " +
         lSV.value +
         "  C " +
-        cSV.value
+        cSV.value +
+        volumeText
       );
     }
-    return "C " + cSV.value;
+    return "C " + cSV.value + volumeText;
   }, [isWide]);
 
   const sep = "  ·  ";
@@ -660,6 +725,18 @@ const CandleCrosshairLabel = memo(function CandleCrosshairLabel({
     return top + 10;
   }, [top]);
 
+  // Heikin-Ashi: raw OHLC on a second row, under the transformed values
+  const rawText = useDerivedValue(() => {
+    "worklet";
+    if (lineModeProgressSV.value > 0.5 || !rawSV.value) return "";
+    return "Raw " + rawSV.value;
+  });
+
+  const rawY = useDerivedValue(() => {
+    "worklet";
+    return top + 24;
+  }, [top]);
+
   const valueColor = useDerivedValue(() => {
     "worklet";
     // Web: line mode crosshair uses palette.line color for value
@@ -701,6 +778,16 @@ const CandleCrosshairLabel = memo(function CandleCrosshairLabel({
             color={outlineColor}
             opacity={opacity}
           />
+          <SkiaText
+            x={baseX}
+            y={rawY}
+            text={rawText}
+            font={font}
+            style="stroke"
+            strokeWidth={3}
+            color={outlineColor}
+            opacity={opacity}
+          />
         </>
       ) : null}
 
@@ -728,6 +815,14 @@ const CandleCrosshairLabel = memo(function CandleCrosshairLabel({
         color={labelColor}
         opacity={opacity}
       />
+      <SkiaText
+        x={baseX}
+        y={rawY}
+        text={rawText}
+        font={font}
+        color={labelColor}
+        opacity={opacity}
+      />
     </>
   );
 });
@@ -749,6 +844,12 @@ interface MultiCrosshairTopLabelProps {
   font: ReturnType<typeof matchFont>;
 }
 
+function multiCrosshairSegment(entry: MultiCrosshairEntry): string {
+  "worklet";
+  const label = entry.label ? `${entry.label} ` : "";
+  return `  ·  ${label}${entry.valueText}`;
+}
+
 const MultiCrosshairTopLabel = memo(function MultiCrosshairTopLabel({
   crosshairOpacitySV,
   hoverXSV,
@@ -765,25 +866,51 @@ const MultiCrosshairTopLabel = memo(function MultiCrosshairTopLabel({
 }: MultiCrosshairTopLabelProps) {
   const minWidth = 220;
 
-  const text = useDerivedValue(() => {
+  // Every entry in series order when they fit; otherwise the lines nearest
+  // the top of the plot, then "+N others"
+  const layout = useDerivedValue(() => {
     "worklet";
     const result = multiCrosshairResultSV.value;
+    const count = result.entryCount;
+    // Match web behavior: reserve inline-dot width for each series entry
+    // and use a slightly conservative char estimate to avoid right-edge spill.
+    const widthOf = (chars: number, entries: number) =>
+      chars * charWidth * 1.06 + entries * 12;
+    const maxWidth = rightBound - leftBound - 8;
     let out = result.timeText;
-    for (let i = 0; i < result.entryCount; i += 1) {
-      const entry = result.entries[i];
-      const label = entry?.label ? `${entry.label} ` : "";
-      out += `  ·  ${label}${entry?.valueText ?? ""}`;
+    for (let i = 0; i < count; i += 1) {
+      out += multiCrosshairSegment(result.entries[i]);
+    }
+    if (widthOf(out.length, count) <= maxWidth) {
+      return { text: out, shown: count };
     }
-    return out;
+    out = result.timeText;
+    let shown = 0;
+    for (let k = 0; k < count; k += 1) {
+      const segment = multiCrosshairSegment(result.entries[result.order[k]]);
+      const rest = count - shown - 1;
+      const othersChars = rest > 0 ? 13 + String(rest).length : 0;
+      const chars = out.length + segment.length + othersChars;
+      if (shown > 0 && widthOf(chars, shown + 1) > maxWidth) break;
+      out += segment;
+      shown += 1;
+    }
+    const others = count - shown;
+    if (others > 0) {
+      out += `  ·  +${others} other${others === 1 ? "" : "s"}`;
+    }
+    return { text: out, shown };
+  }, [charWidth, leftBound, rightBound]);
+
+  const text = useDerivedValue(() => {
+    "worklet";
+    return layout.value.text;
   });
 
   const x = useDerivedValue(() => {
     "worklet";
-    const result = multiCrosshairResultSV.value;
-    // Match web behavior: reserve inline-dot width for each series entry
-    // and use a slightly conservative char estimate to avoid right-edge spill.
     const width =
-      text.value.length * charWidth * 1.06 + result.entryCount * 12;
+      text.value.length * charWidth * 1.06 + layout.value.shown * 12;
     const minX = leftBound + 4;
     const dotRightEdge = liveDotXSV.value + 7;
     const rightBoundEdge = rightBound - 4;
@@ -833,6 +960,528 @@ const MultiCrosshairTopLabel = memo(function MultiCrosshairTopLabel({
   );
 });
 
+// ── Reference lines + price bands ──────────────────────────────────
+
+const REFERENCE_LABEL_INSET = 4;
+const DEFAULT_REFERENCE_DASH = [4, 4];
+const PRICE_BAND_FILL_OPACITY = 0.12;
+
+interface ReferenceLineViewProps {
+  index: number;
+  slotsSV: SharedValue<ReferenceLineSlot[]>;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  label?: string;
+  lineColor: string;
+  labelColor: string;
+  dash: number[] | false;
+  font: ReturnType<typeof matchFont>;
+  opacitySV: SharedValue<number>;
+}
+
+const ReferenceLineView = memo(function ReferenceLineView({
+  index,
+  slotsSV,
+  left,
+  right,
+  top,
+  bottom,
+  label,
+  lineColor,
+  labelColor,
+  dash,
+  font,
+  opacitySV,
+}: ReferenceLineViewProps) {
+  const labelWidth = label ? font.measureText(label).width : 0;
+
+  const pathSV = usePathValue((path) => {
+    "worklet";
+    path.rewind();
+    const slot = slotsSV.value[index];
+    if (!slot || slot.active === 0) return;
+    path.moveTo(left, slot.y);
+    path.lineTo(right, slot.y);
+  }, Skia.Path.Make());
+
+  const labelXSV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    return slot?.labelLeft
+      ? left + REFERENCE_LABEL_INSET
+      : right - labelWidth - REFERENCE_LABEL_INSET;
+  }, [index, left, right, labelWidth]);
+
+  const labelYSV = useDerivedValue(() => {
+    "worklet";
+    return slotsSV.value[index]?.labelY ?? -1000;
+  }, [index]);
+
+  // Labels outside the plot would float over the axes — hide them instead
+  const labelOpacitySV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    if (!slot || slot.active === 0) return 0;
+    if (slot.y < top || slot.y > bottom) return 0;
+    return opacitySV.value;
+  }, [index, top, bottom]);
+
+  return (
+    <>
+      <Path
+        path={pathSV}
+        style="stroke"
+        strokeWidth={1}
+        color={lineColor}
+        opacity={opacitySV}
+      >
+        {dash ? <DashPathEffect intervals={dash} /> : null}
+      </Path>
+      {label ? (
+        <SkiaText
+          x={labelXSV}
+          y={labelYSV}
+          text={label}
+          font={font}
+          color={labelColor}
+          opacity={labelOpacitySV}
+        />
+      ) : null}
+    </>
+  );
+});
+
+interface PriceBandViewProps {
+  index: number;
+  slotsSV: SharedValue<PriceBandSlot[]>;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  label?: string;
+  color: string;
+  font: ReturnType<typeof matchFont>;
+  opacitySV: SharedValue<number>;
+}
+
+const PriceBandView = memo(function PriceBandView({
+  index,
+  slotsSV,
+  left,
+  right,
+  top,
+  bottom,
+  label,
+  color,
+  font,
+  opacitySV,
+}: PriceBandViewProps) {
+  const labelWidth = label ? font.measureText(label).width : 0;
+
+  const pathSV = usePathValue((path) => {
+    "worklet";
+    path.rewind();
+    const slot = slotsSV.value[index];
+    if (!slot || slot.active === 0) return;
+    path.addRect({
+      x: left,
+      y: slot.top,
+      width: right - left,
+      height: Math.max(0.5, slot.bottom - slot.top),
+    });
+  }, Skia.Path.Make());
+
+  const fillOpacitySV = useDerivedValue(() => {
+    "worklet";
+    return opacitySV.value * PRICE_BAND_FILL_OPACITY;
+  });
+
+  const labelXSV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    return slot?.labelLeft
+      ? left + REFERENCE_LABEL_INSET
+      : right - labelWidth - REFERENCE_LABEL_INSET;
+  }, [index, left, right, labelWidth]);
+
+  const labelYSV = useDerivedValue(() => {
+    "worklet";
+    return slotsSV.value[index]?.labelY ?? -1000;
+  }, [index]);
+
+  const labelOpacitySV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    if (!slot || slot.active === 0) return 0;
+    if (slot.bottom < top || slot.top > bottom) return 0;
+    return opacitySV.value;
+  }, [index, top, bottom]);
+
+  return (
+    <>
+      <Path path={pathSV} color={color} opacity={fillOpacitySV} />
+      {label ? (
+        <SkiaText
+          x={labelXSV}
+          y={labelYSV}
+          text={label}
+          font={font}
+          color={color}
+          opacity={labelOpacitySV}
+        />
+      ) : null}
+    </>
+  );
+});
+
+// ── Orderbook heatmap ──────────────────────────────────────────────
+
+// Opacity of the densest level; fainter levels step down evenly
+const HEATMAP_MAX_OPACITY = 0.35;
+
+// ── Time regions ───────────────────────────────────────────────────
+
+const TIME_REGION_FILL_OPACITY = 0.08;
+
+// Per-region style, looked up through each slot's `region` index
+interface TimeRegionStyle {
+  label: string;
+  color: string;
+}
+
+interface TimeRegionViewProps {
+  index: number;
+  slotsSV: SharedValue<TimeRegionSlot[]>;
+  stylesSV: SharedValue<TimeRegionStyle[]>;
+  left: number;
+  top: number;
+  bottom: number;
+  font: ReturnType<typeof matchFont>;
+  opacitySV: SharedValue<number>;
+}
+
+// A shaded session, or a 1px vertical line when the region has no `to`
+const TimeRegionView = memo(function TimeRegionView({
+  index,
+  slotsSV,
+  stylesSV,
+  left,
+  top,
+  bottom,
+  font,
+  opacitySV,
+}: TimeRegionViewProps) {
+  const styleSV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    return slot && slot.active !== 0 ? stylesSV.value[slot.region] : undefined;
+  }, [index]);
+  const colorSV = useDerivedValue(() => styleSV.value?.color ?? "transparent");
+  const labelSV = useDerivedValue(() => styleSV.value?.label ?? "");
+
+  const fillPathSV = usePathValue((path) => {
+    "worklet";
+    path.rewind();
+    const slot = slotsSV.value[index];
+    if (!slot || slot.active === 0 || slot.x1 - slot.x0 < 1) return;
+    path.addRect({
+      x: slot.x0,
+      y: top,
+      width: slot.x1 - slot.x0,
+      height: bottom - top,
+    });
+  }, Skia.Path.Make());
+
+  const linePathSV = usePathValue((path) => {
+    "worklet";
+    path.rewind();
+    const slot = slotsSV.value[index];
+    if (!slot || slot.active === 0 || slot.x1 - slot.x0 >= 1) return;
+    path.moveTo(slot.x0, top);
+    path.lineTo(slot.x0, bottom);
+  }, Skia.Path.Make());
+
+  const fillOpacitySV = useDerivedValue(() => {
+    "worklet";
+    return opacitySV.value * TIME_REGION_FILL_OPACITY;
+  });
+
+  // Sessions that started off-screen keep their label pinned to the left edge
+  const labelXSV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    if (!slot) return -1000;
+    return Math.max(slot.x0, left) + REFERENCE_LABEL_INSET;
+  }, [index, left]);
+
+  const labelOpacitySV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    return slot && slot.active !== 0 ? opacitySV.value : 0;
+  }, [index]);
+
+  return (
+    <>
+      <Path path={fillPathSV} color={colorSV} opacity={fillOpacitySV} />
+      <Path
+        path={linePathSV}
+        style="stroke"
+        strokeWidth={1}
+        color={colorSV}
+        opacity={opacitySV}
+      />
+      <SkiaText
+        x={labelXSV}
+        y={top + 11}
+        text={labelSV}
+        font={font}
+        color={colorSV}
+        opacity={labelOpacitySV}
+      />
+    </>
+  );
+});
+
+// ── Event markers ──────────────────────────────────────────────────
+
+const MARKER_HIT_RADIUS = 16;
+const MARKER_LABEL_GAP = 5;
+
+// Per-marker glyph style, looked up through each slot's `marker` index
+interface MarkerStyle {
+  shape: MarkerShape;
+  label: string;
+  labelWidth: number;
+  color: string;
+}
+
+interface MarkerViewProps {
+  index: number;
+  slotsSV: SharedValue<MarkerSlot[]>;
+  stylesSV: SharedValue<MarkerStyle[]>;
+  font: ReturnType<typeof matchFont>;
+  opacitySV: SharedValue<number>;
+  crosshairOpacitySV: SharedValue<number>;
+  scrubSplitXSV: SharedValue<number>;
+  scrub: boolean;
+}
+
+const MarkerView = memo(function MarkerView({
+  index,
+  slotsSV,
+  stylesSV,
+  font,
+  opacitySV,
+  crosshairOpacitySV,
+  scrubSplitXSV,
+  scrub,
+}: MarkerViewProps) {
+  const styleSV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    return slot && slot.active !== 0 ? stylesSV.value[slot.marker] : undefined;
+  }, [index]);
+
+  const pathSV = usePathValue((path) => {
+    "worklet";
+    path.rewind();
+    const slot = slotsSV.value[index];
+    const style = styleSV.value;
+    if (!slot || !style) return;
+    addMarkerGlyph(path, style.shape, slot.x, slot.y, MARKER_SIZE);
+  }, Skia.Path.Make());
+
+  const colorSV = useDerivedValue(() => styleSV.value?.color ?? "transparent");
+  const labelSV = useDerivedValue(() => styleSV.value?.label ?? "");
+
+  // Glyphs right of the crosshair dim with the line
+  const glyphOpacitySV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    if (!slot || !styleSV.value) return 0;
+    const dim =
+      scrub && slot.x > scrubSplitXSV.value
+        ? 1 - crosshairOpacitySV.value * 0.6
+        : 1;
+    return opacitySV.value * dim;
+  }, [index, scrub]);
+
+  const labelXSV = useDerivedValue(() => {
+    "worklet";
+    const labelWidth = styleSV.value?.labelWidth ?? 0;
+    return (slotsSV.value[index]?.x ?? -1000) - labelWidth * 0.5;
+  }, [index]);
+
+  const labelYSV = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    if (!slot) return -1000;
+    return styleSV.value?.shape === "triangleDown"
+      ? slot.y + MARKER_SIZE * 1.2 + MARKER_LABEL_GAP + 9
+      : slot.y - MARKER_SIZE * 1.3 - MARKER_LABEL_GAP;
+  }, [index]);
+
+  return (
+    <>
+      <Path path={pathSV} color={colorSV} opacity={glyphOpacitySV} />
+      <SkiaText
+        x={labelXSV}
+        y={labelYSV}
+        text={labelSV}
+        font={font}
+        color={colorSV}
+        opacity={glyphOpacitySV}
+      />
+    </>
+  );
+});
+
+// ── Indicator overlays ─────────────────────────────────────────────
+
+interface IndicatorLineProps {
+  pathSV: SharedValue<import("@shopify/react-native-skia").SkPath>;
+  bandPathSV: SharedValue<import("@shopify/react-native-skia").SkPath>;
+  hasBand: boolean;
+  color: string;
+  opacitySV: SharedValue<number>;
+}
+
+const IndicatorLine = memo(function IndicatorLine({
+  pathSV,
+  bandPathSV,
+  hasBand,
+  color,
+  opacitySV,
+}: IndicatorLineProps) {
+  const bandOpacity = useDerivedValue(() => {
+    "worklet";
+    return opacitySV.value * 0.55;
+  });
+
+  return (
+    <>
+      {hasBand ? (
+        <Path
+          path={bandPathSV}
+          style="stroke"
+          strokeWidth={1}
+          strokeJoin="round"
+          color={color}
+          opacity={bandOpacity}
+        />
+      ) : null}
+      <Path
+        path={pathSV}
+        style="stroke"
+        strokeWidth={1.5}
+        strokeJoin="round"
+        strokeCap="round"
+        color={color}
+        opacity={opacitySV}
+      />
+    </>
+  );
+});
+
+interface IndicatorCrosshairEntryProps {
+  index: number;
+  textsSV: SharedValue<string[]>;
+  crosshairOpacitySV: SharedValue<number>;
+  hoverXSV: SharedValue<number>;
+  liveDotXSV: SharedValue<number>;
+  leftBound: number;
+  rightBound: number;
+  top: number;
+  color: string;
+  outlineColor: string;
+  tooltipOutline: boolean;
+  charWidth: number;
+  font: ReturnType<typeof matchFont>;
+}
+
+// One colored entry of the indicator row drawn under the crosshair tooltip:
+// "SMA 20 101.25   EMA 50 100.90", centered on the hover x like the tooltip.
+const IndicatorCrosshairEntry = memo(function IndicatorCrosshairEntry({
+  index,
+  textsSV,
+  crosshairOpacitySV,
+  hoverXSV,
+  liveDotXSV,
+  leftBound,
+  rightBound,
+  top,
+  color,
+  outlineColor,
+  tooltipOutline,
+  charWidth,
+  font,
+}: IndicatorCrosshairEntryProps) {
+  const minWidth = 200;
+  const gapChars = 3;
+
+  const text = useDerivedValue(() => {
+    "worklet";
+    return textsSV.value[index] ?? "";
+  }, [index]);
+
+  const x = useDerivedValue(() => {
+    "worklet";
+    const texts = textsSV.value;
+    let totalChars = 0;
+    let offsetChars = 0;
+    for (let i = 0; i < texts.length; i += 1) {
+      if (!texts[i]) continue;
+      if (totalChars > 0) totalChars += gapChars;
+      if (i === index) offsetChars = totalChars;
+      totalChars += texts[i].length;
+    }
+    const totalW = totalChars * charWidth;
+    const minX = leftBound + 4;
+    const maxX = Math.max(minX, liveDotXSV.value + 7 - totalW);
+    const baseX = clamp(hoverXSV.value - totalW * 0.5, minX, maxX);
+    return baseX + offsetChars * charWidth;
+  }, [index, charWidth, leftBound]);
+
+  const y = useDerivedValue(() => {
+    "worklet";
+    return top + 10 + INDICATOR_ROW_HEIGHT;
+  }, [top]);
+
+  const opacity = useDerivedValue(() => {
+    "worklet";
+    const o = crosshairOpacitySV.value;
+    if (o < 0.1 || rightBound - leftBound < minWidth) return 0;
+    return textsSV.value[index] ? o : 0;
+  }, [index, leftBound, rightBound]);
+
+  return (
+    <>
+      {tooltipOutline ? (
+        <SkiaText
+          x={x}
+          y={y}
+          text={text}
+          font={font}
+          style="stroke"
+          strokeWidth={3}
+          color={outlineColor}
+          opacity={opacity}
+        />
+      ) : null}
+      <SkiaText
+        x={x}
+        y={y}
+        text={text}
+        font={font}
+        color={color}
+        opacity={opacity}
+      />
+    </>
+  );
+});
+
 const OB_GREEN_STR = "rgb(34, 197, 94)";
 const OB_RED_STR = "rgb(239, 68, 68)";
 
@@ -842,6 +1491,8 @@ interface OrderbookLabelProps {
   revealSV: SharedValue<number>;
   left: number;
   font: ReturnType<typeof matchFont>;
+  bidColor: string;
+  askColor: string;
 }
 
 const OrderbookLabel = memo(function OrderbookLabel({
@@ -850,6 +1501,8 @@ const OrderbookLabel = memo(function OrderbookLabel({
   revealSV,
   left,
   font,
+  bidColor,
+  askColor,
 }: OrderbookLabelProps) {
   const x = Math.round(left);
 
@@ -880,8 +1533,8 @@ const OrderbookLabel = memo(function OrderbookLabel({
     "worklet";
     const slot = labelsSV.value[index];
     if (!slot || slot.active !== 1 || slot.alpha <= 0.001) return "transparent";
-    return slot.green === 1 ? OB_GREEN_STR : OB_RED_STR;
-  }, [index]);
+    return slot.green === 1 ? bidColor : askColor;
+  }, [index, bidColor, askColor]);
 
   return (
     <SkiaText
@@ -906,11 +1559,13 @@ interface WindowControlsProps {
 function ModeToggle({
   mode,
   onModeChange,
+  barToggle,
   isDark,
   styleVariant,
 }: {
-  mode: "line" | "candle";
-  onModeChange: (mode: "line" | "candle") => void;
+  mode: ChartMode;
+  onModeChange: (mode: ChartMode) => void;
+  barToggle: boolean;
   isDark: boolean;
   styleVariant: WindowStyle;
 }) {
@@ -993,6 +1648,26 @@ function ModeToggle({
           </Group>
         </Canvas>
       </Pressable>
+      {/* Opt-in; without barToggle it only marks an active bar mode */}
+      {barToggle || mode === "bar" ? (
+        <Pressable
+          onPress={() => onModeChange("bar")}
+          disabled={!barToggle}
+          style={[
+            styles.modeBtn,
+            styleVariant === "rounded" ? styles.modeBtnRounded : null,
+          ]}
+          hitSlop={4}
+        >
+          <Canvas style={{ width: 12, height: 12 }}>
+            <Path
+              path="M1.5 11V6H4V11ZM4.75 11V2H7.25V11ZM8 11V4.5H10.5V11Z"
+              style="fill"
+              color={mode === "bar" ? activeColor : inactiveColor}
+            />
+          </Canvas>
+        </Pressable>
+      ) : null}
     </View>
   );
 }
@@ -1146,23 +1821,61 @@ const SeriesLine = memo(function SeriesLine({
     "worklet";
     const slot = slotsSV.value[index];
     if (!slot || !slot.active) return 0;
-    const reveal = chartRevealSV.value;
-    // Secondary lines fade in faster during reveal to avoid brightness
-    // compounding from overlapping semi-transparent strokes
-    const secondaryFade = index > 0 && reveal < 1 ? Math.min(1, reveal * 2) : 1;
-    return slot.alpha * reveal * secondaryFade;
+    const reveal = chartRevealSV.value;
+    // Secondary lines fade in faster during reveal to avoid brightness
+    // compounding from overlapping semi-transparent strokes
+    const secondaryFade = index > 0 && reveal < 1 ? Math.min(1, reveal * 2) : 1;
+    return slot.alpha * reveal * secondaryFade;
+  }, [index]);
+
+  return (
+    <Path
+      path={pathSV}
+      style="stroke"
+      strokeWidth={2}
+      strokeJoin="round"
+      strokeCap="round"
+      color={color}
+      opacity={opacity}
+    />
+  );
+});
+
+interface SeriesBandProps {
+  index: number;
+  pathSV: SharedValue<import("@shopify/react-native-skia").SkPath>;
+  slotsSV: SharedValue<SeriesSlotForRender[]>;
+  chartRevealSV: SharedValue<number>;
+  palette: Palette;
+  top: number;
+  bottom: number;
+}
+
+// Stacked layer fill, in the single-line chart's fill gradient
+const SeriesBand = memo(function SeriesBand({
+  index,
+  pathSV,
+  slotsSV,
+  chartRevealSV,
+  palette,
+  top,
+  bottom,
+}: SeriesBandProps) {
+  const opacity = useDerivedValue(() => {
+    "worklet";
+    const slot = slotsSV.value[index];
+    if (!slot || !slot.active) return 0;
+    return slot.alpha * chartRevealSV.value;
   }, [index]);
 
   return (
-    <Path
-      path={pathSV}
-      style="stroke"
-      strokeWidth={2}
-      strokeJoin="round"
-      strokeCap="round"
-      color={color}
-      opacity={opacity}
-    />
+    <Path path={pathSV} style="fill" opacity={opacity}>
+      <LinearGradient
+        start={vec(0, top)}
+        end={vec(0, bottom)}
+        colors={[palette.fillTop, palette.fillBottom]}
+      />
+    </Path>
   );
 });
 
@@ -1354,67 +2067,96 @@ const MultiCrosshairDot = memo(function MultiCrosshairDot({
   return <Circle cx={hoverXSV} cy={cy} r={4} color={color} opacity={opacity} />;
 });
 
-export function Liveline({
-  data,
-  value,
-  theme = "dark",
-  color = "#3b82f6",
-  window: windowSecsProp = 30,
-  grid = true,
-  badge = true,
-  momentum = true,
-  fill = true,
-  scrub = true,
-  loading = false,
-  paused = false,
-  emptyText,
-  exaggerate = false,
-  degen: degenProp,
-  badgeTail = true,
-  badgeVariant = "default",
-  showValue = false,
-  showChange = false,
-  valueDisplayMode = "latest",
-  dataTransition = "none",
-  dataTransitionDurationMs,
-  dataTransitionKey,
-  valueMomentumColor = false,
-  windows,
-  onWindowChange,
-  windowStyle = "default",
-  windowPosition = "left",
-  tooltipY = 14,
-  tooltipOutline = true,
-  orderbook,
-  referenceLine,
-  formatValue = defaultFormatValue,
-  formatTime = defaultFormatTime,
-  formatValueWorklet,
-  formatTimeWorklet,
-  timeFormatPreset = "auto",
-  axisTimeFormatPreset,
-  crosshairTimeFormatPreset,
-  formatAxisTimeWorklet,
-  formatCrosshairTimeWorklet,
-  lerpSpeed = 0.08,
-  padding: paddingOverride,
-  onHoverWorklet,
-  mode = "line",
-  candles: candlesProp,
-  candleWidth: candleWidthProp,
-  liveCandle: liveCandleProp,
-  lineMode: lineModeProp,
-  lineData: lineDataProp,
-  lineValue: lineValueProp,
-  onModeChange,
-  renderWindowControls,
-  pulse = true,
-  series: seriesProp,
-  onSeriesToggle,
-  seriesToggleCompact = false,
-  className,
-  style,
-}: LivelineProps) {
+function LivelineInner(
+  {
+    data,
+    value,
+    retention,
+    decimation,
+    theme = "dark",
+    color = "#3b82f6",
+    window: windowSecsProp = 30,
+    grid = true,
+    badge = true,
+    momentum = true,
+    fill = true,
+    scrub = true,
+    loading = false,
+    paused = false,
+    emptyText,
+    exaggerate = false,
+    yScale,
+    yDomain,
+    includeZero,
+    yAxisDrag = true,
+    degen: degenProp,
+    badgeTail = true,
+    badgeVariant = "default",
+    showValue = false,
+    showChange = false,
+    valueDisplayMode = "latest",
+    dataTransition = "none",
+    dataTransitionDurationMs,
+    dataTransitionKey,
+    valueMomentumColor = false,
+    windows,
+    onWindowChange,
+    windowStyle = "default",
+    windowPosition = "left",
+    tooltipY = 14,
+    tooltipOutline = true,
+    orderbook,
+    orderbookOptions,
+    depth: depthProp = false,
+    depthWidth = 0.2,
+    orderbookHistory,
+    referenceLine,
+    referenceLines,
+    bands,
+    markers,
+    onMarkerPress,
+    timeRegions,
+    indicators,
+    oscillator,
+    formatValue = defaultFormatValue,
+    formatTime = defaultFormatTime,
+    formatValueWorklet,
+    formatLeftValueWorklet,
+    formatTimeWorklet,
+    timeFormatPreset = "auto",
+    axisTimeFormatPreset,
+    crosshairTimeFormatPreset,
+    timeZone,
+    locale,
+    tradingHours,
+    formatAxisTimeWorklet,
+    formatCrosshairTimeWorklet,
+    lerpSpeed = 0.08,
+    padding: paddingOverride,
+    onHoverWorklet,
+    mode = "line",
+    candles: candlesProp,
+    candleWidth: candleWidthProp,
+    liveCandle: liveCandleProp,
+    candleStyle = "filled",
+    volume: volumeProp = false,
+    volumeHeight = 0.2,
+    lineMode: lineModeProp,
+    lineData: lineDataProp,
+    lineValue: lineValueProp,
+    barToggle = false,
+    onModeChange,
+    renderWindowControls,
+    pulse = true,
+    series: seriesProp,
+    onSeriesToggle,
+    seriesToggleCompact = false,
+    seriesStack = "none",
+    className,
+    style,
+  }: LivelineProps,
+  ref: ForwardedRef<LivelineHandle>,
+) {
   void className;
   const emptyLabel = emptyText ?? "No data to display";
 
@@ -1427,11 +2169,24 @@ export function Liveline({
 
   const isDark = theme === "dark";
   const palette = useMemo(() => derivePalette(color, theme), [color, theme]);
+  const seriesPalettes = useMemo(
+    () => resolveSeriesPalettes(seriesProp ?? [], theme),
+    [seriesProp, theme],
+  );
 
   const showMomentum = momentum !== false;
   const momentumOverride =
     typeof momentum === "string" ? (momentum as Momentum) : undefined;
 
+  const resolvedOrderbookOptions = useMemo(
+    () => resolveOrderbookOptions(orderbookOptions),
+    [orderbookOptions],
+  );
+  const obBidColor = orderbookOptions?.bidColor ?? OB_GREEN_STR;
+  const obAskColor = orderbookOptions?.askColor ?? OB_RED_STR;
+  const depthBidColor = orderbookOptions?.bidColor ?? palette.positive;
+  const depthAskColor = orderbookOptions?.askColor ?? palette.negative;
+
   const degenEnabled = degenProp != null ? degenProp !== false : false;
   const degenOptions: DegenOptions | undefined = degenEnabled
     ? typeof degenProp === "object"
@@ -1439,18 +2194,23 @@ export function Liveline({
       : {}
     : undefined;
 
+  const hasLeftAxis = !!seriesProp && seriesProp.some((s) => s.axis === "left");
   const padding = useMemo<Required<Padding>>(
     () => ({
       top: paddingOverride?.top ?? DEFAULT_PADDING.top,
       right: paddingOverride?.right ?? DEFAULT_PADDING.right,
       bottom: paddingOverride?.bottom ?? DEFAULT_PADDING.bottom,
-      left: paddingOverride?.left ?? DEFAULT_PADDING.left,
+      // Left-axis series need a label gutter on the left too
+      left:
+        paddingOverride?.left ??
+        (hasLeftAxis ? DEFAULT_PADDING.right : DEFAULT_PADDING.left),
     }),
     [
       paddingOverride?.bottom,
       paddingOverride?.left,
       paddingOverride?.right,
       paddingOverride?.top,
+      hasLeftAxis,
     ],
   );
 
@@ -1490,9 +2250,12 @@ export function Liveline({
   const activeWindowSecs = windows
     ? (controlledWindowSecs ?? windowOverride ?? fallbackWindow)
     : windowSecsProp;
-  const hasData = data.some(
-    (p) => Number.isFinite(p?.time) && Number.isFinite(p?.value),
-  );
+  // Appended points count as data until a new `data` batch replaces them
+  const dataKey = `${data.length}:${data[data.length - 1]?.time}`;
+  const [streamedDataKey, setStreamedDataKey] = useState<string | null>(null);
+  const hasData =
+    streamedDataKey === dataKey ||
+    data.some((p) => Number.isFinite(p?.time) && Number.isFinite(p?.value));
   const axisLabelFont = useMemo(
     () =>
       matchFont({
@@ -1591,6 +2354,12 @@ export function Liveline({
   const gestureWindowSecsSV = useSharedValue(0);
   const panStartOffsetSV = useSharedValue(0);
   const pinchBaseWindowSV = useSharedValue(30);
+  // Pending scrollToTime offset; NaN when idle
+  const scrollTargetSV = useSharedValue(NaN);
+  // Value-axis gutter drag: range stretch factor (1 = auto-fit)
+  const yStretchSV = useSharedValue(1);
+  const yStretchStartSV = useSharedValue(1);
+  const axisTouchStartYSV = useSharedValue(0);
 
   const referenceLabelWidth = Math.max(
     0,
@@ -1598,22 +2367,70 @@ export function Liveline({
   );
   const layout = layoutRef.current;
   const hasLayout = layout.width > 0 && layout.height > 0;
+  // Sub-panes (candle volume, then the oscillator) are carved out of the
+  // bottom of the plot, above the time axis. The engine lays the plot out
+  // against `plotPadding`.
+  const paneBaseHeight = Math.max(
+    0,
+    layout.height - padding.top - padding.bottom,
+  );
+  const volumePaneHeight =
+    volumeProp && mode === "candle" && !isMultiSeries && hasLayout
+      ? Math.round(paneBaseHeight * clamp(volumeHeight, 0.05, 0.5))
+      : 0;
+  const oscillatorPaneHeight =
+    oscillator && !isMultiSeries && hasLayout
+      ? Math.round(paneBaseHeight * clamp(oscillator.height ?? 0.25, 0.1, 0.5))
+      : 0;
+  const subPaneHeight = volumePaneHeight + oscillatorPaneHeight;
+  // The depth sidebar is carved out of the right of the plot, inside the
+  // value labels, so it shares the plot's value axis
+  const depthPaneWidth =
+    depthProp && orderbook && !isMultiSeries && hasLayout
+      ? Math.round(
+          Math.max(0, layout.width - padding.left - padding.right) *
+            clamp(depthWidth, 0.1, 0.4),
+        )
+      : 0;
+  const plotPadding = useMemo<Required<Padding>>(
+    () =>
+      subPaneHeight > 0 || depthPaneWidth > 0
+        ? {
+            ...padding,
+            bottom: padding.bottom + subPaneHeight,
+            right: padding.right + depthPaneWidth,
+          }
+        : padding,
+    [padding, subPaneHeight, depthPaneWidth],
+  );
 
   const {
+    appendPoints,
+    sessions,
     linePathSV,
     fillPathSV,
+    barPositivePathSV,
+    barNegativePathSV,
     currentLinePathSV,
     loadingLinePathSV,
     badgePathSV,
     referencePathSV,
     referenceLabelYSV,
     referenceLabelOpacitySV,
+    referenceLineSlotsSV,
+    priceBandSlotsSV,
+    markerSlotsSV,
+    timeRegionSlotsSV,
     hoverLinePathSV,
     arrowUpChevron0SV,
     arrowUpChevron1SV,
     arrowDownChevron0SV,
     arrowDownChevron1SV,
     displayWindowSecsSV,
+    visibleStartSecSV,
+    visibleEndSecSV,
+    rangeMinSV,
+    rangeMaxSV,
     dotXSV,
     dotYSV,
     pulseRadiusSV,
@@ -1631,6 +2448,8 @@ export function Liveline({
     hoverActiveSV,
     hoverXSV,
     hoverYSV,
+    hoverValueSV,
+    hoverTimeSecSV,
     hoverValueTextSV,
     hoverTimeTextSV,
     crosshairOpacitySV,
@@ -1640,8 +2459,17 @@ export function Liveline({
     loadingBreathSV,
     pauseProgressSV,
     gridSlotsSV,
+    leftGridSlotsSV,
     timeSlotsSV,
     orderbookLabelsSV,
+    depthBidPathSV,
+    depthAskPathSV,
+    depthHoverTextSV,
+    depthHoverBidSV,
+    heatmapPath0SV,
+    heatmapPath1SV,
+    heatmapPath2SV,
+    heatmapPath3SV,
     particlePathHighSV,
     particlePathMidSV,
     particlePathLowSV,
@@ -1661,33 +2489,54 @@ export function Liveline({
     candleCrosshairHSV,
     candleCrosshairLSV,
     candleCrosshairCSV,
+    candleCrosshairRawSV,
     candleCrosshairTimeSV,
     candleCrosshairBullSV,
+    candleCrosshairVSV,
+    volumeBullPathSV,
+    volumeBearPathSV,
     candleWidthMorphTSV,
+    candleRangeMinSV,
+    candleRangeMaxSV,
     oldCandleBullPathSV,
     oldCandleBearPathSV,
     oldCandleBullWickPathSV,
     oldCandleBearWickPathSV,
     // Multi-series
-    seriesPath0SV,
-    seriesPath1SV,
-    seriesPath2SV,
-    seriesPath3SV,
-    seriesPath4SV,
-    seriesPath5SV,
-    seriesPath6SV,
-    seriesPath7SV,
+    seriesPathSVs,
+    seriesBandPathSVs,
     seriesSlotsSV,
     activeSeriesCountSV,
     multiCrosshairResultSV,
+    // Indicator overlays
+    indicatorPath0SV,
+    indicatorPath1SV,
+    indicatorPath2SV,
+    indicatorPath3SV,
+    indicatorBandPath0SV,
+    indicatorBandPath1SV,
+    indicatorBandPath2SV,
+    indicatorBandPath3SV,
+    indicatorCrosshairTextsSV,
+    // Oscillator pane
+    oscLinePathSV,
+    oscSignalPathSV,
+    oscHistUpPathSV,
+    oscHistDownPathSV,
+    oscGuidePathSV,
+    oscBandPathSV,
+    oscReadoutSV,
+    oscGridSlotsSV,
   } = useLivelineEngine({
     data,
     value,
+    retention,
+    decimation,
     windowSecs: activeWindowSecs,
     targetWindowSecs: activeWindowSecs,
     layoutWidth: hasLayout ? layout.width : 1,
     layoutHeight: hasLayout ? layout.height : 1,
-    padding,
+    padding: plotPadding,
     showMomentum: isMultiSeries ? false : showMomentum,
     showGrid: grid,
     showBadge: isMultiSeries ? false : badge,
@@ -1697,16 +2546,32 @@ export function Liveline({
     showLoadingState: loading,
     paused,
     exaggerate,
+    yScale,
+    yDomain,
+    includeZero,
     lerpSpeed,
     momentumOverride: isMultiSeries ? "flat" : momentumOverride,
     referenceLine,
+    referenceLines,
+    bands,
+    markers,
+    timeRegions,
+    indicators: isMultiSeries ? undefined : indicators,
+    oscillator: isMultiSeries ? undefined : oscillator,
+    oscillatorPaneHeight,
     orderbook: isMultiSeries ? undefined : orderbook,
+    orderbookOptions: resolvedOrderbookOptions,
+    orderbookHistory: isMultiSeries ? undefined : orderbookHistory,
     degenOptions: isMultiSeries ? undefined : degenOptions,
     formatValueWorklet,
+    formatLeftValueWorklet,
     formatTimeWorklet,
     timeFormatPreset,
     axisTimeFormatPreset,
     crosshairTimeFormatPreset,
+    timeZone,
+    locale,
+    tradingHours,
     formatAxisTimeWorklet,
     formatCrosshairTimeWorklet,
     valueDisplayMode,
@@ -1724,10 +2589,15 @@ export function Liveline({
     panVelocitySV,
     isLiveSV,
     gestureWindowSecsSV,
+    scrollTargetSV,
+    yStretchSV,
     mode: isMultiSeries ? "line" : mode,
     candles: isMultiSeries ? undefined : candlesProp,
     candleWidth: isMultiSeries ? undefined : candleWidthProp,
     liveCandle: isMultiSeries ? undefined : liveCandleProp,
+    candleStyle,
+    volumePaneHeight,
+    depthPaneWidth,
     lineMode: isMultiSeries ? undefined : lineModeProp,
     lineData: isMultiSeries ? undefined : lineDataProp,
     lineValue: isMultiSeries ? undefined : lineValueProp,
@@ -1735,18 +2605,24 @@ export function Liveline({
     series: seriesProp,
     isMultiSeries,
     hiddenSeriesIds: hiddenSeries,
+    seriesStack,
   });
 
-  const seriesPathSVs = [
-    seriesPath0SV,
-    seriesPath1SV,
-    seriesPath2SV,
-    seriesPath3SV,
-    seriesPath4SV,
-    seriesPath5SV,
-    seriesPath6SV,
-    seriesPath7SV,
+  const indicatorPathSVs = [
+    indicatorPath0SV,
+    indicatorPath1SV,
+    indicatorPath2SV,
+    indicatorPath3SV,
+  ];
+  const indicatorBandPathSVs = [
+    indicatorBandPath0SV,
+    indicatorBandPath1SV,
+    indicatorBandPath2SV,
+    indicatorBandPath3SV,
   ];
+  const visibleIndicators = isMultiSeries
+    ? []
+    : (indicators ?? []).slice(0, MAX_INDICATORS);
 
   const onLayout = ({ nativeEvent }: LayoutChangeEvent) => {
     const { width, height } = nativeEvent.layout;
@@ -1760,8 +2636,15 @@ export function Liveline({
   };
 
   const chartRight = layout.width - padding.right;
+  const plotRight = chartRight - depthPaneWidth;
   const chartBottom = layout.height - padding.bottom;
-  const chartHeight = Math.max(0, chartBottom - padding.top);
+  const plotBottom = chartBottom - subPaneHeight;
+  const oscillatorPaneTop = plotBottom + volumePaneHeight + SUB_PANE_GAP;
+  const oscillatorPaneHeightInner = Math.max(
+    0,
+    oscillatorPaneHeight - SUB_PANE_GAP,
+  );
+  const chartHeight = Math.max(0, plotBottom - padding.top);
   const centerX = padding.left + Math.max(0, chartRight - padding.left) * 0.5;
   const centerY = padding.top + chartHeight * 0.5;
   const emptyCenterX = layout.width * 0.5;
@@ -1778,11 +2661,16 @@ export function Liveline({
     referenceLabelWidth * 0.5;
 
   const isCandle = mode === "candle";
+  // Hollow candles outline the up bodies
+  const bullBodyStyle = candleStyle === "hollow" ? "stroke" : "fill";
+  // Bars replace the line, fill and live dot; the badge stays
+  const isBar = mode === "bar" && !isMultiSeries;
 
   const liveOpacitySV = useDerivedValue(
     () =>
-      (1 - loadingAlphaSV.value) * (isCandle ? lineModeProgressSV.value : 1),
-    [isCandle],
+      (1 - loadingAlphaSV.value) *
+      (isCandle ? lineModeProgressSV.value : isBar ? 0 : 1),
+    [isCandle, isBar],
   );
   const emptyOpacitySV = useDerivedValue(
     () => (hasData ? 0 : 1 - loadingAlphaSV.value),
@@ -1832,10 +2720,11 @@ export function Liveline({
   // Suppress pulse when browsing
   const pulseDrawOpacitySV = useDerivedValue(
     () =>
-      pulseOpacitySV.value *
+      (isBar ? 0 : pulseOpacitySV.value) *
       dotRevealSV.value *
       isLiveSV.value *
       (1 - crosshairOpacitySV.value * 0.7),
+    [isBar],
   );
   const crosshairLineOpacitySV = useDerivedValue(
     () => crosshairOpacitySV.value * 0.5,
@@ -1854,6 +2743,18 @@ export function Liveline({
   const liveFillOpacitySV = useDerivedValue(
     () => liveLineOpacitySV.value * chartRevealSV.value,
   );
+  const indicatorOpacitySV = useDerivedValue(
+    () => (1 - loadingAlphaSV.value) * chartRevealSV.value,
+  );
+  const barOpacitySV = useDerivedValue(
+    () => (1 - loadingAlphaSV.value) * (1 - crosshairOpacitySV.value * 0.2),
+  );
+  const oscBandOpacitySV = useDerivedValue(
+    () => indicatorOpacitySV.value * 0.08,
+  );
+  const oscHistOpacitySV = useDerivedValue(
+    () => indicatorOpacitySV.value * 0.6,
+  );
   const scrubDimFillOpacitySV = useDerivedValue(
     () => liveFillOpacitySV.value * (1 - crosshairOpacitySV.value * 0.6),
   );
@@ -1865,10 +2766,36 @@ export function Liveline({
     rect(
       padding.left - 1,
       padding.top,
-      Math.max(0, chartRight - padding.left + 2),
+      Math.max(0, plotRight - padding.left + 2),
+      Math.max(0, chartHeight),
+    ),
+  );
+  const depthLeft = plotRight + SUB_PANE_GAP;
+  const depthClipRectSV = useDerivedValue(() =>
+    rect(
+      depthLeft,
+      padding.top,
+      Math.max(0, chartRight - depthLeft),
       Math.max(0, chartHeight),
     ),
   );
+  const depthFillOpacitySV = useDerivedValue(
+    () => indicatorOpacitySV.value * 0.2,
+  );
+  const depthHoverYSV = useDerivedValue(() =>
+    clamp(hoverYSV.value - 4, padding.top + 10, plotBottom - 2),
+  );
+  const depthHoverColorSV = useDerivedValue(() =>
+    depthHoverBidSV.value > 0.5 ? depthBidColor : depthAskColor,
+  );
+  const oscillatorClipRectSV = useDerivedValue(() =>
+    rect(
+      padding.left - 1,
+      oscillatorPaneTop,
+      Math.max(0, chartRight - padding.left + 2),
+      oscillatorPaneHeightInner,
+    ),
+  );
   const leftClipRectSV = useDerivedValue(() =>
     rect(0, 0, Math.max(0, scrubSplitXSV.value), Math.max(0, layout.height)),
   );
@@ -1895,10 +2822,10 @@ export function Liveline({
   }, [isCandle]);
   const arrowOpacitySV = useDerivedValue(
     () =>
-      showMomentum && !isCandle
+      showMomentum && !isCandle && !isBar
         ? arrowRevealSV.value * (1 - pauseProgressSV.value)
         : 0,
-    [isCandle],
+    [isCandle, isBar],
   );
   const chartShakeStyle = useAnimatedStyle(() => ({
     transform: [{ translateX: shakeXSV.value }, { translateY: shakeYSV.value }],
@@ -1933,6 +2860,16 @@ export function Liveline({
     if (!isCandle) return 0;
     return candleOldOpacitySV.value * (1 - crosshairOpacitySV.value * 0.5);
   }, [isCandle]);
+  // Volume bars: softer than candle bodies and stay visible through the
+  // line morph (their colors blend to the accent with the candles)
+  const volumeOpacitySV = useDerivedValue(() => {
+    if (!isCandle) return 0;
+    return chartRevealSV.value * (1 - pauseProgressSV.value) * 0.5;
+  }, [isCandle]);
+  const volumeScrubDimOpacitySV = useDerivedValue(() => {
+    if (!isCandle) return 0;
+    return volumeOpacitySV.value * (1 - crosshairOpacitySV.value * 0.5);
+  }, [isCandle]);
   // Live candle glow pulsing opacity — includes scrub dim since live candle
   // is rightmost and always in the dimmed zone during scrub
   const candleGlowOpacitySV = useDerivedValue(() => {
@@ -2001,6 +2938,66 @@ export function Liveline({
     [palette.positive],
   );
   const hasReferenceLabel = !!referenceLine?.label;
+  const visibleReferenceLines = referenceLines ?? [];
+  const visibleBands = bands ?? [];
+  const markerStyles = useMemo<MarkerStyle[]>(
+    () =>
+      (markers ?? []).map((marker) => ({
+        shape: marker.shape ?? "circle",
+        label: marker.label ?? "",
+        labelWidth: marker.label
+          ? referenceFont.measureText(marker.label).width
+          : 0,
+        color: marker.color ?? palette.line,
+      })),
+    [markers, referenceFont, palette.line],
+  );
+  const markerStylesSV = useDerivedValue(() => markerStyles, [markerStyles]);
+  // The engine grows the marker pool on the UI thread when more glyphs are
+  // in view than it holds; mirror its size so the extra slots get views
+  const [markerPoolSize, setMarkerPoolSize] = useState(INITIAL_MARKER_SLOTS);
+  useAnimatedReaction(
+    () => {
+      "worklet";
+      return markerSlotsSV.value.length;
+    },
+    (size, prev) => {
+      "worklet";
+      if (size !== prev) runOnJS(setMarkerPoolSize)(size);
+    },
+  );
+  const markerSlotCount = Math.min(markerStyles.length, markerPoolSize);
+  const timeRegionStyles = useMemo<TimeRegionStyle[]>(
+    () =>
+      (timeRegions ?? []).map((region) => ({
+        label: region.label ?? "",
+        color: region.color ?? palette.referenceLabelText,
+      })),
+    [timeRegions, palette.referenceLabelText],
+  );
+  const timeRegionStylesSV = useDerivedValue(
+    () => timeRegionStyles,
+    [timeRegionStyles],
+  );
+  // The engine grows the slot pool on the UI thread when more regions are in
+  // view than it holds; mirror its size so the extra slots get views
+  const [timeRegionPoolSize, setTimeRegionPoolSize] = useState(
+    INITIAL_TIME_REGION_SLOTS,
+  );
+  useAnimatedReaction(
+    () => {
+      "worklet";
+      return timeRegionSlotsSV.value.length;
+    },
+    (size, prev) => {
+      "worklet";
+      if (size !== prev) runOnJS(setTimeRegionPoolSize)(size);
+    },
+  );
+  const timeRegionSlotCount = Math.min(
+    timeRegionStyles.length,
+    timeRegionPoolSize,
+  );
 
   const badgeRgbCacheSV = useSharedValue(createRgbCache());
   const badgeColorSV = useDerivedValue(() => {
@@ -2096,7 +3093,7 @@ export function Liveline({
     };
   });
 
-  const innerWidth = Math.max(1, layout.width - padding.left - padding.right);
+  const innerWidth = Math.max(1, plotRight - padding.left);
 
   const panGesture = useMemo(
     () =>
@@ -2109,6 +3106,7 @@ export function Liveline({
           } else {
             // Browse mode — kill momentum, snapshot offset
             panVelocitySV.value = 0;
+            scrollTargetSV.value = NaN;
             panStartOffsetSV.value = domainOffsetSV.value;
           }
         })
@@ -2143,6 +3141,7 @@ export function Liveline({
       panVelocitySV,
       panStartOffsetSV,
       domainOffsetSV,
+      scrollTargetSV,
       displayWindowSecsSV,
       innerWidth,
     ],
@@ -2195,24 +3194,140 @@ export function Liveline({
           domainOffsetSV.value = 0;
           panVelocitySV.value = 0;
           gestureWindowSecsSV.value = 0;
+          scrollTargetSV.value = NaN;
           isLiveSV.value = 1;
+          yStretchSV.value = 1;
+        }),
+    [
+      domainOffsetSV,
+      panVelocitySV,
+      gestureWindowSecsSV,
+      scrollTargetSV,
+      isLiveSV,
+      yStretchSV,
+    ],
+  );
+
+  // Vertical drag on the value-axis gutter: down widens the range, up
+  // narrows it. Touches outside the gutter (sub-panes included) fail so
+  // pan/scrub take them; inside it the drag waits for vertical travel.
+  const gutterLeft = layout.width - padding.right;
+  const gutterTop = padding.top;
+  const gutterBottom = plotBottom;
+  const plotHeight = Math.max(1, gutterBottom - gutterTop);
+  const axisDragGesture = useMemo(
+    () =>
+      Gesture.Pan()
+        .enabled(yAxisDrag)
+        .manualActivation(true)
+        .onTouchesDown((event, manager) => {
+          const touch = event.allTouches[0];
+          if (
+            event.numberOfTouches === 1 &&
+            touch &&
+            touch.x >= gutterLeft &&
+            touch.y >= gutterTop &&
+            touch.y <= gutterBottom
+          ) {
+            axisTouchStartYSV.value = touch.y;
+          } else {
+            manager.fail();
+          }
+        })
+        .onTouchesMove((event, manager) => {
+          const touch = event.allTouches[0];
+          if (event.numberOfTouches !== 1 || !touch) {
+            manager.fail();
+          } else if (
+            Math.abs(touch.y - axisTouchStartYSV.value) >= Y_AXIS_DRAG_SLOP_PX
+          ) {
+            manager.activate();
+          }
+        })
+        .onTouchesUp((_event, manager) => {
+          manager.end();
+        })
+        .onStart(() => {
+          yStretchStartSV.value = yStretchSV.value;
+        })
+        .onUpdate((event) => {
+          yStretchSV.value = clamp(
+            yStretchStartSV.value *
+              Math.exp((event.translationY / plotHeight) * Y_STRETCH_PER_PLOT),
+            Y_STRETCH_MIN,
+            Y_STRETCH_MAX,
+          );
         }),
-    [domainOffsetSV, panVelocitySV, gestureWindowSecsSV, isLiveSV],
+    [
+      yAxisDrag,
+      gutterLeft,
+      gutterTop,
+      gutterBottom,
+      plotHeight,
+      yStretchSV,
+      yStretchStartSV,
+      axisTouchStartYSV,
+    ],
   );
 
+  // Marker taps hit-test on the UI thread and report back on the JS thread
+  const markerTapGesture = useMemo(() => {
+    const handleMarkerPress = (index: number) => {
+      const marker = markers?.[index];
+      if (marker) onMarkerPress?.(marker, index);
+    };
+    return Gesture.Tap()
+      .enabled(!!onMarkerPress && markerSlotCount > 0)
+      .onEnd((event) => {
+        const hit = hitTestMarkers(
+          markerSlotsSV.value,
+          event.x,
+          event.y,
+          MARKER_HIT_RADIUS,
+        );
+        if (hit >= 0) runOnJS(handleMarkerPress)(hit);
+      });
+  }, [markers, onMarkerPress, markerSlotCount, markerSlotsSV]);
+
   const composedGesture = useMemo(
     () =>
       Gesture.Race(
-        doubleTapGesture,
+        axisDragGesture,
+        Gesture.Exclusive(doubleTapGesture, markerTapGesture),
         Gesture.Simultaneous(panGesture, pinchGesture),
       ),
-    [doubleTapGesture, panGesture, pinchGesture],
+    [
+      axisDragGesture,
+      doubleTapGesture,
+      markerTapGesture,
+      panGesture,
+      pinchGesture,
+    ],
   );
 
   const chartCanvas = hasLayout ? (
     <Animated.View style={[styles.chartSurface, chartShakeStyle]}>
       <Canvas style={styles.canvas}>
         <Group>
+          {orderbookHistory && orderbookHistory.length > 0 && !isMultiSeries ? (
+            <Group clip={chartClipRectSV} opacity={indicatorOpacitySV}>
+              {[
+                heatmapPath0SV,
+                heatmapPath1SV,
+                heatmapPath2SV,
+                heatmapPath3SV,
+              ].map((pathSV, level) => (
+                <Path
+                  key={`heat-${level}`}
+                  path={pathSV}
+                  style="fill"
+                  color={palette.line}
+                  opacity={((level + 1) / HEATMAP_LEVELS) * HEATMAP_MAX_OPACITY}
+                />
+              ))}
+            </Group>
+          ) : null}
+
           <Path
             path={referencePathSV}
             style="stroke"
@@ -2233,6 +3348,61 @@ export function Liveline({
             />
           ) : null}
 
+          {timeRegionSlotCount > 0 ? (
+            <Group clip={chartClipRectSV}>
+              {Array.from({ length: timeRegionSlotCount }, (_, i) => (
+                <TimeRegionView
+                  key={`tr-${i}`}
+                  index={i}
+                  slotsSV={timeRegionSlotsSV}
+                  stylesSV={timeRegionStylesSV}
+                  left={padding.left}
+                  top={padding.top}
+                  bottom={plotBottom}
+                  font={referenceFont}
+                  opacitySV={chartRevealSV}
+                />
+              ))}
+            </Group>
+          ) : null}
+
+          {visibleBands.length > 0 || visibleReferenceLines.length > 0 ? (
+            <Group clip={chartClipRectSV}>
+              {visibleBands.map((band, i) => (
+                <PriceBandView
+                  key={`band-${i}`}
+                  index={i}
+                  slotsSV={priceBandSlotsSV}
+                  left={padding.left}
+                  right={chartRight}
+                  top={padding.top}
+                  bottom={plotBottom}
+                  label={band.label}
+                  color={band.color ?? palette.referenceLabelText}
+                  font={referenceFont}
+                  opacitySV={chartRevealSV}
+                />
+              ))}
+              {visibleReferenceLines.map((line, i) => (
+                <ReferenceLineView
+                  key={`ref-${i}`}
+                  index={i}
+                  slotsSV={referenceLineSlotsSV}
+                  left={padding.left}
+                  right={chartRight}
+                  top={padding.top}
+                  bottom={plotBottom}
+                  label={line.label}
+                  lineColor={line.color ?? palette.referenceLine}
+                  labelColor={line.color ?? palette.referenceLabelText}
+                  dash={line.dash ?? DEFAULT_REFERENCE_DASH}
+                  font={referenceFont}
+                  opacitySV={chartRevealSV}
+                />
+              ))}
+            </Group>
+          ) : null}
+
           {grid
             ? Array.from({ length: Y_LABEL_SLOTS }, (_, i) => (
                 <GridLine
@@ -2247,18 +3417,64 @@ export function Liveline({
             : null}
 
           {orderbook
-            ? Array.from({ length: MAX_ORDERBOOK_LABELS }, (_, i) => (
-                <OrderbookLabel
-                  key={`ob-${i}`}
-                  index={i}
-                  labelsSV={orderbookLabelsSV}
-                  revealSV={chartRevealSV}
-                  left={padding.left + 8}
-                  font={orderbookFont}
-                />
-              ))
+            ? Array.from(
+                { length: resolvedOrderbookOptions.maxLabels },
+                (_, i) => (
+                  <OrderbookLabel
+                    key={`ob-${i}`}
+                    index={i}
+                    labelsSV={orderbookLabelsSV}
+                    revealSV={chartRevealSV}
+                    left={padding.left + 8}
+                    font={orderbookFont}
+                    bidColor={obBidColor}
+                    askColor={obAskColor}
+                  />
+                ),
+              )
             : null}
 
+          {depthPaneWidth > 0 ? (
+            <Group clip={depthClipRectSV}>
+              <Path
+                path={depthBidPathSV}
+                style="fill"
+                color={depthBidColor}
+                opacity={depthFillOpacitySV}
+              />
+              <Path
+                path={depthAskPathSV}
+                style="fill"
+                color={depthAskColor}
+                opacity={depthFillOpacitySV}
+              />
+              <Path
+                path={depthBidPathSV}
+                style="stroke"
+                strokeWidth={1}
+                color={depthBidColor}
+                opacity={indicatorOpacitySV}
+              />
+              <Path
+                path={depthAskPathSV}
+                style="stroke"
+                strokeWidth={1}
+                color={depthAskColor}
+                opacity={indicatorOpacitySV}
+              />
+              {scrub ? (
+                <SkiaText
+                  x={depthLeft + 4}
+                  y={depthHoverYSV}
+                  text={depthHoverTextSV}
+                  font={axisLabelFont}
+                  color={depthHoverColorSV}
+                  opacity={crosshairOpacitySV}
+                />
+              ) : null}
+            </Group>
+          ) : null}
+
           <Path
             path={loadingLinePathSV}
             style="stroke"
@@ -2275,7 +3491,156 @@ export function Liveline({
             opacity={emptyLineOpacitySV}
           />
 
+          {volumePaneHeight > 0 ? (
+            scrub ? (
+              <>
+                <Group clip={leftClipRectSV}>
+                  <Path
+                    path={volumeBullPathSV}
+                    style="fill"
+                    color={candleBullColorSV}
+                    opacity={volumeOpacitySV}
+                  />
+                  <Path
+                    path={volumeBearPathSV}
+                    style="fill"
+                    color={candleBearColorSV}
+                    opacity={volumeOpacitySV}
+                  />
+                </Group>
+                <Group clip={rightClipRectSV}>
+                  <Path
+                    path={volumeBullPathSV}
+                    style="fill"
+                    color={candleBullColorSV}
+                    opacity={volumeScrubDimOpacitySV}
+                  />
+                  <Path
+                    path={volumeBearPathSV}
+                    style="fill"
+                    color={candleBearColorSV}
+                    opacity={volumeScrubDimOpacitySV}
+                  />
+                </Group>
+              </>
+            ) : (
+              <>
+                <Path
+                  path={volumeBullPathSV}
+                  style="fill"
+                  color={candleBullColorSV}
+                  opacity={volumeOpacitySV}
+                />
+                <Path
+                  path={volumeBearPathSV}
+                  style="fill"
+                  color={candleBearColorSV}
+                  opacity={volumeOpacitySV}
+                />
+              </>
+            )
+          ) : null}
+
+          {oscillator && oscillatorPaneHeight > 0 ? (
+            <>
+              {grid
+                ? Array.from({ length: MAX_OSCILLATOR_GRID_LABELS }, (_, i) => (
+                    <GridLine
+                      key={`osc-gl-${i}`}
+                      index={i}
+                      slotsSV={oscGridSlotsSV}
+                      left={padding.left}
+                      right={chartRight}
+                      color={palette.grid}
+                    />
+                  ))
+                : null}
+              {grid
+                ? Array.from({ length: MAX_OSCILLATOR_GRID_LABELS }, (_, i) => (
+                    <AxisYLabel
+                      key={`osc-y-${i}`}
+                      index={i}
+                      slotsSV={oscGridSlotsSV}
+                      color={palette.gridLabel}
+                      x={layout.width - padding.right + 8}
+                      font={axisLabelFont}
+                    />
+                  ))
+                : null}
+              <Group clip={oscillatorClipRectSV}>
+                <Path
+                  path={oscBandPathSV}
+                  style="fill"
+                  color={oscillator.color ?? palette.line}
+                  opacity={oscBandOpacitySV}
+                />
+                <Path
+                  path={oscGuidePathSV}
+                  style="stroke"
+                  strokeWidth={1}
+                  color={palette.gridLabel}
+                  opacity={indicatorOpacitySV}
+                >
+                  <DashPathEffect intervals={[4, 4]} />
+                </Path>
+                <Path
+                  path={oscHistUpPathSV}
+                  style="fill"
+                  color={BULL_COLOR}
+                  opacity={oscHistOpacitySV}
+                />
+                <Path
+                  path={oscHistDownPathSV}
+                  style="fill"
+                  color={BEAR_COLOR}
+                  opacity={oscHistOpacitySV}
+                />
+                <Path
+                  path={oscSignalPathSV}
+                  style="stroke"
+                  strokeWidth={1.5}
+                  strokeJoin="round"
+                  color={oscillator.signalColor ?? INDICATOR_COLORS[0]}
+                  opacity={indicatorOpacitySV}
+                />
+                <Path
+                  path={oscLinePathSV}
+                  style="stroke"
+                  strokeWidth={1.5}
+                  strokeJoin="round"
+                  strokeCap="round"
+                  color={oscillator.color ?? palette.line}
+                  opacity={indicatorOpacitySV}
+                />
+              </Group>
+              <SkiaText
+                x={padding.left + 4}
+                y={oscillatorPaneTop + 11}
+                text={oscReadoutSV}
+                font={axisLabelFont}
+                color={palette.gridLabel}
+                opacity={indicatorOpacitySV}
+              />
+            </>
+          ) : null}
+
           <Group clip={chartClipRectSV}>
+            {isBar ? (
+              <>
+                <Path
+                  path={barPositivePathSV}
+                  style="fill"
+                  color={palette.positive}
+                  opacity={barOpacitySV}
+                />
+                <Path
+                  path={barNegativePathSV}
+                  style="fill"
+                  color={palette.negative}
+                  opacity={barOpacitySV}
+                />
+              </>
+            ) : null}
             {!isMultiSeries
               ? scrub
                 ? (
@@ -2288,7 +3653,7 @@ export function Liveline({
                         >
                           <LinearGradient
                             start={vec(0, padding.top)}
-                            end={vec(0, chartBottom)}
+                            end={vec(0, plotBottom)}
                             colors={[palette.fillTop, palette.fillBottom]}
                           />
                         </Path>
@@ -2310,7 +3675,7 @@ export function Liveline({
                         >
                           <LinearGradient
                             start={vec(0, padding.top)}
-                            end={vec(0, chartBottom)}
+                            end={vec(0, plotBottom)}
                             colors={[palette.fillTop, palette.fillBottom]}
                           />
                         </Path>
@@ -2335,7 +3700,7 @@ export function Liveline({
                       >
                         <LinearGradient
                           start={vec(0, padding.top)}
-                          end={vec(0, chartBottom)}
+                          end={vec(0, plotBottom)}
                           colors={[palette.fillTop, palette.fillBottom]}
                         />
                       </Path>
@@ -2357,7 +3722,8 @@ export function Liveline({
                 {/* Old candle paths (fading out during width morph) */}
                 <Path
                   path={oldCandleBullPathSV}
-                  style="fill"
+                  style={bullBodyStyle}
+                  strokeWidth={1}
                   color={candleBullColorSV}
                   opacity={candleOldOpacitySV}
                 />
@@ -2385,7 +3751,8 @@ export function Liveline({
                     <Group clip={leftClipRectSV}>
                       <Path
                         path={candleBullPathSV}
-                        style="fill"
+                        style={bullBodyStyle}
+                        strokeWidth={1}
                         color={candleBullColorSV}
                         opacity={candleNewOpacitySV}
                       />
@@ -2411,7 +3778,8 @@ export function Liveline({
                     <Group clip={rightClipRectSV}>
                       <Path
                         path={candleBullPathSV}
-                        style="fill"
+                        style={bullBodyStyle}
+                        strokeWidth={1}
                         color={candleBullColorSV}
                         opacity={candleScrubDimOpacitySV}
                       />
@@ -2439,7 +3807,8 @@ export function Liveline({
                   <>
                     <Path
                       path={candleBullPathSV}
-                      style="fill"
+                      style={bullBodyStyle}
+                      strokeWidth={1}
                       color={candleBullColorSV}
                       opacity={candleNewOpacitySV}
                     />
@@ -2492,6 +3861,35 @@ export function Liveline({
               </>
             ) : null}
 
+            {visibleIndicators.map((indicator, i) => (
+              <IndicatorLine
+                key={`ind-${i}`}
+                pathSV={indicatorPathSVs[i]}
+                bandPathSV={indicatorBandPathSVs[i]}
+                hasBand={indicator.type === "bollinger"}
+                color={
+                  indicator.color ??
+                  INDICATOR_COLORS[i % INDICATOR_COLORS.length]
+                }
+                opacitySV={indicatorOpacitySV}
+              />
+            ))}
+
+            {isMultiSeries && seriesStack !== "none"
+              ? (seriesProp ?? []).map((s, i) => (
+                  <SeriesBand
+                    key={`sb-${i}`}
+                    index={i}
+                    pathSV={seriesBandPathSVs[i]}
+                    slotsSV={seriesSlotsSV}
+                    chartRevealSV={chartRevealSV}
+                    palette={seriesPalettes.get(s.id) ?? palette}
+                    top={padding.top}
+                    bottom={plotBottom}
+                  />
+                ))
+              : null}
+
             {isMultiSeries
               ? seriesPathSVs.map((pathSV, i) => (
                   <SeriesLine
@@ -2503,6 +3901,20 @@ export function Liveline({
                   />
                 ))
               : null}
+
+            {Array.from({ length: markerSlotCount }, (_, i) => (
+              <MarkerView
+                key={`mk-${i}`}
+                index={i}
+                slotsSV={markerSlotsSV}
+                stylesSV={markerStylesSV}
+                font={referenceFont}
+                opacitySV={indicatorOpacitySV}
+                crosshairOpacitySV={crosshairOpacitySV}
+                scrubSplitXSV={scrubSplitXSV}
+                scrub={scrub}
+              />
+            ))}
           </Group>
 
           {!hasData ? (
@@ -2576,7 +3988,7 @@ export function Liveline({
           />
 
           {isMultiSeries
-            ? Array.from({ length: 8 }, (_, i) => (
+            ? seriesPathSVs.map((_, i) => (
                 <SeriesPulse
                   key={`sp-${i}`}
                   index={i}
@@ -2590,7 +4002,7 @@ export function Liveline({
             : null}
 
           {isMultiSeries
-            ? Array.from({ length: 8 }, (_, i) => (
+            ? seriesPathSVs.map((_, i) => (
                 <SeriesDot
                   key={`sd-${i}`}
                   index={i}
@@ -2601,7 +4013,7 @@ export function Liveline({
             : null}
 
           {isMultiSeries
-            ? Array.from({ length: 8 }, (_, i) => (
+            ? seriesPathSVs.map((_, i) => (
                 <SeriesEndLabel
                   key={`sl-${i}`}
                   index={i}
@@ -2613,7 +4025,7 @@ export function Liveline({
             : null}
 
           {isMultiSeries && scrub
-            ? Array.from({ length: 8 }, (_, i) => (
+            ? seriesPathSVs.map((_, i) => (
                 <MultiCrosshairDot
                   key={`mc-${i}`}
                   index={i}
@@ -2708,6 +4120,21 @@ export function Liveline({
               ))
             : null}
 
+          {grid && hasLeftAxis
+            ? Array.from({ length: Y_LABEL_SLOTS }, (_, i) => (
+                <AxisYLabel
+                  key={`yl-${i}`}
+                  index={i}
+                  slotsSV={leftGridSlotsSV}
+                  color={palette.gridLabel}
+                  x={padding.left - 8}
+                  font={axisLabelFont}
+                  alignRight
+                  charWidth={axisCharWidth}
+                />
+              ))
+            : null}
+
           {grid
             ? Array.from({ length: X_LABEL_SLOTS }, (_, i) => (
                 <AxisXLabel
@@ -2817,7 +4244,9 @@ export function Liveline({
                 hSV={candleCrosshairHSV}
                 lSV={candleCrosshairLSV}
                 cSV={candleCrosshairCSV}
+                rawSV={candleCrosshairRawSV}
                 timeSV={candleCrosshairTimeSV}
+                vSV={candleCrosshairVSV}
                 bullSV={candleCrosshairBullSV}
                 leftBound={padding.left}
                 rightBound={chartRight}
@@ -2849,6 +4278,30 @@ export function Liveline({
               />
             )
           ) : null}
+
+          {scrub
+            ? visibleIndicators.map((indicator, i) => (
+                <IndicatorCrosshairEntry
+                  key={`ind-ch-${i}`}
+                  index={i}
+                  textsSV={indicatorCrosshairTextsSV}
+                  crosshairOpacitySV={crosshairOpacitySV}
+                  hoverXSV={hoverXSV}
+                  liveDotXSV={dotXSV}
+                  leftBound={padding.left}
+                  rightBound={chartRight}
+                  top={padding.top + tooltipY}
+                  color={
+                    indicator.color ??
+                    INDICATOR_COLORS[i % INDICATOR_COLORS.length]
+                  }
+                  outlineColor={palette.tooltipBg}
+                  tooltipOutline={tooltipOutline}
+                  charWidth={tooltipCharWidth}
+                  font={tooltipFont}
+                />
+              ))
+            : null}
         </Group>
       </Canvas>
     </Animated.View>
@@ -2862,10 +4315,78 @@ export function Liveline({
     gestureWindowSecsSV.value = 0;
     domainOffsetSV.value = 0;
     panVelocitySV.value = 0;
+    scrollTargetSV.value = NaN;
     isLiveSV.value = 1;
     onWindowChange?.(secs);
   };
 
+  useImperativeHandle(ref, () => ({
+    resetToLive: () => {
+      domainOffsetSV.value = 0;
+      panVelocitySV.value = 0;
+      gestureWindowSecsSV.value = 0;
+      scrollTargetSV.value = NaN;
+      isLiveSV.value = 1;
+    },
+    scrollToTime: (time, options) => {
+      if (!Number.isFinite(time)) return;
+      // Shift the current offset by the distance from the plot center
+      const center = (visibleStartSecSV.value + visibleEndSecSV.value) / 2;
+      const chartTime = toSessionTime(time, sessions);
+      let target = Math.min(0, domainOffsetSV.value + (chartTime - center));
+      if (target > -SCROLL_LIVE_SNAP_SECS) target = 0;
+      panVelocitySV.value = 0;
+      isLiveSV.value = target === 0 ? 1 : 0;
+      if (options?.animated === false) {
+        scrollTargetSV.value = NaN;
+        domainOffsetSV.value = target;
+      } else {
+        scrollTargetSV.value = target;
+      }
+    },
+    setWindow: (secs) => {
+      if (!Number.isFinite(secs) || secs <= 0) return;
+      if (windows?.some((w) => w.secs === secs)) {
+        setWindowOverride(secs);
+        gestureWindowSecsSV.value = 0;
+        onWindowChange?.(secs);
+      } else {
+        if (windows) setWindowOverride(null);
+        gestureWindowSecsSV.value = Math.max(1, secs);
+      }
+    },
+    resetYScale: () => {
+      yStretchSV.value = 1;
+    },
+    getVisibleRange: () => {
+      const candleRange =
+        mode === "candle" && !isMultiSeries && lineModeProgressSV.value < 0.5;
+      return {
+        start: fromSessionTime(visibleStartSecSV.value, sessions),
+        end: fromSessionTime(visibleEndSecSV.value, sessions),
+        min: candleRange ? candleRangeMinSV.value : rangeMinSV.value,
+        max: candleRange ? candleRangeMaxSV.value : rangeMaxSV.value,
+      };
+    },
+    appendPoint: (point) => {
+      appendPoints([point]);
+      if (!hasData) setStreamedDataKey(dataKey);
+    },
+    appendPoints: (points) => {
+      appendPoints(points);
+      if (!hasData && points.length > 0) setStreamedDataKey(dataKey);
+    },
+    getHoverPoint: () =>
+      hoverActiveSV.value
+        ? {
+            x: hoverXSV.value,
+            y: hoverYSV.value,
+            time: hoverTimeSecSV.value,
+            value: hoverValueSV.value,
+          }
+        : null,
+  }));
+
   const renderWindowControlsProps: LivelineWindowControlsRenderProps | null =
     windows && windows.length > 0
       ? {
@@ -2957,6 +4478,7 @@ export function Liveline({
         <ModeToggle
           mode={mode}
           onModeChange={onModeChange}
+          barToggle={barToggle}
           isDark={isDark}
           styleVariant={windowStyle}
         />
@@ -2994,7 +4516,7 @@ export function Liveline({
         },
       ]}
     >
-      {seriesForToggle.map((s) => {
+      {seriesForToggle.map((s, index) => {
         const hidden = hiddenSeries.has(s.id);
         const labelText = s.label ?? s.id;
         const compactDotSize = seriesToggleCompact ? 8 : 6;
@@ -3039,7 +4561,7 @@ export function Liveline({
                   width: compactDotSize,
                   height: compactDotSize,
                   borderRadius: compactDotSize / 2,
-                  backgroundColor: s.color,
+                  backgroundColor: s.color ?? seriesColor(index),
                   opacity: hidden ? 0.4 : 1,
                 },
               ]}
@@ -3132,6 +4654,9 @@ export function Liveline({
   );
 }
 
+export const Liveline = forwardRef(LivelineInner);
+Liveline.displayName = "Liveline";
+
 const styles = StyleSheet.create({
   container: {
     width: "100%",
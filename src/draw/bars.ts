@@ -0,0 +1,118 @@
+import type { SkPath } from "@shopify/react-native-skia";
+import { valueToY } from "../math/scale";
+import { addRoundedRect, candleBucketStart, candleDims } from "./candlestick";
+import type { ResolvedSessions } from "./sessions";
+import type { ResolvedTimeZone } from "./timeZone";
+
+/**
+ * Bar / histogram mode (`mode="bar"`).
+ *
+ * Points are bucketed like aggregated candles (`candleBucketStart`): each
+ * `candleWidth` interval is one bar holding its last point's value, so
+ * faster feeds overwrite the interval rather than stacking bars. The
+ * newest interval is the live bar, drawn at the smoothed live value.
+ */
+
+function ptT(buf: Float64Array, i: number): number {
+  "worklet";
+  return buf[i * 2];
+}
+
+function ptV(buf: Float64Array, i: number): number {
+  "worklet";
+  return buf[i * 2 + 1];
+}
+
+export interface BarPathResult {
+  positive: SkPath;
+  negative: SkPath;
+}
+
+/**
+ * Build batched bar paths for the intervals holding points `first..last`.
+ * Bars grow from the
+ * zero line (or the nearest plot edge when zero is off-scale); the live
+ * bar is scaled by `liveBirth` so a newly committed interval rises in.
+ *
+ * All paths should be rewound before calling this function.
+ */
+export function buildBarPaths(
+  result: BarPathResult,
+  buf: Float64Array,
+  count: number,
+  first: number,
+  last: number,
+  barWidthSecs: number,
+  zone: ResolvedTimeZone | null,
+  sessions: ResolvedSessions | null,
+  chartW: number,
+  chartH: number,
+  paddingLeft: number,
+  paddingTop: number,
+  leftEdge: number,
+  rightEdge: number,
+  rangeMin: number,
+  rangeSpan: number,
+  liveValue: number,
+  liveBirth: number,
+  chartReveal: number,
+): void {
+  "worklet";
+  const span = rightEdge - leftEdge;
+  if (span <= 0 || rangeSpan <= 0 || count === 0 || last < 0) return;
+
+  const { bodyW, radius } = candleDims(
+    chartW,
+    leftEdge,
+    rightEdge,
+    barWidthSecs,
+  );
+  const halfBody = bodyW / 2;
+  const zeroY = Math.min(
+    Math.max(
+      valueToY(0, rangeMin, rangeSpan, paddingTop, chartH, false),
+      paddingTop,
+    ),
+    paddingTop + chartH,
+  );
+  // Bars rise with the same smoothstep ramp the volume pane uses
+  const t =
+    chartReveal <= 0.3 ? 0 : chartReveal >= 1 ? 1 : (chartReveal - 0.3) / 0.7;
+  const reveal = t * t * (3 - 2 * t);
+  if (reveal <= 0) return;
+
+  const bucketAt = (i: number): number => {
+    "worklet";
+    return candleBucketStart(ptT(buf, i), barWidthSecs, zone, sessions);
+  };
+
+  // The visible slice starts at the first point inside the window; a bar
+  // opening just before it still covers the left edge, and one opening
+  // inside it runs to its last point
+  let from = Math.max(0, first);
+  while (from > 0 && bucketAt(from - 1) + barWidthSecs > leftEdge) from--;
+  let to = Math.min(last, count - 1);
+  if (to < from) return;
+  const lastBucket = bucketAt(to);
+  while (to + 1 < count && bucketAt(to + 1) === lastBucket) to++;
+
+  let bucket = bucketAt(from);
+  for (let i = from; i <= to; i++) {
+    const bucketStart = bucket;
+    // Only an interval's last point draws
+    if (i < count - 1) {
+      bucket = bucketAt(i + 1);
+      if (bucket === bucketStart) continue;
+    }
+    const raw = i === count - 1 ? liveValue * liveBirth : ptV(buf, i);
+    const v = raw * reveal;
+    const y = valueToY(v, rangeMin, rangeSpan, paddingTop, chartH, false);
+    const h = Math.abs(y - zeroY);
+    if (h < 0.5) continue;
+    const cx =
+      paddingLeft +
+      ((bucketStart + barWidthSecs / 2 - leftEdge) / span) * chartW;
+    const path = v >= 0 ? result.positive : result.negative;
+    addRoundedRect(path, cx - halfBody, Math.min(y, zeroY), bodyW, h, radius);
+  }
+}
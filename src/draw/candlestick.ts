@@ -1,5 +1,12 @@
 import type { SkPath } from "@shopify/react-native-skia";
+import { padLogRange, valueToY } from "../math/scale";
 import type { CandlePoint } from "../types";
+import { sessionStartAt, type ResolvedSessions } from "./sessions";
+import {
+  timeZoneOffsetMinutes,
+  zonedWallToUtcMs,
+  type ResolvedTimeZone,
+} from "./timeZone";
 
 // ── Constants ────────────────────────────────────────────────────────
 
@@ -53,7 +60,7 @@ export function candleDims(
 
 // ── Rounded rect helper (Skia path) ────────────────────────────────
 
-function addRoundedRect(
+export function addRoundedRect(
   path: SkPath,
   x: number,
   y: number,
@@ -90,6 +97,8 @@ export interface CandlePathResult {
  * Bear candles → one body path + one wick path.
  * Live candle glow → separate body path for blur effect.
  * Close price line → horizontal dashed line at live close.
+ * OHLC bars (`ohlcBars`) → high-low bar plus open/close ticks, all in the
+ * wick paths; no bodies or glow.
  *
  * All paths should be rewound before calling this function.
  */
@@ -105,10 +114,12 @@ export function buildCandlePaths(
   rightEdge: number,
   rangeMin: number,
   rangeSpan: number,
+  logScale: boolean,
   liveTime: number,
   liveBirthAlpha: number,
   lineModeProg: number,
   chartReveal: number,
+  ohlcBars: boolean,
 ): void {
   "worklet";
 
@@ -124,7 +135,7 @@ export function buildCandlePaths(
   };
 
   const toY = (v: number): number => {
-    return paddingTop + (1 - (v - rangeMin) / rangeSpan) * chartH;
+    return valueToY(v, rangeMin, rangeSpan, paddingTop, chartH, logScale);
   };
 
   // OHLC collapse during line morph — candle bodies shrink toward close
@@ -169,6 +180,31 @@ export function buildCandlePaths(
     // Candle center X: midpoint of candle time window
     const cx = toX(c.time + candleWidthSecs / 2);
 
+    if (ohlcBars) {
+      const barPath = isBull ? result.bullWicks : result.bearWicks;
+      const barTop = toY(c.high);
+      const tick = Math.max(1, wickW);
+      barPath.addRect({
+        x: cx - tick / 2,
+        y: barTop,
+        width: tick,
+        height: Math.max(1, toY(c.low) - barTop),
+      });
+      barPath.addRect({
+        x: cx - halfBody,
+        y: toY(c.open) - tick / 2,
+        width: halfBody,
+        height: tick,
+      });
+      barPath.addRect({
+        x: cx,
+        y: toY(c.close) - tick / 2,
+        width: halfBody,
+        height: tick,
+      });
+      continue;
+    }
+
     // Body top/bottom
     const bodyTop = toY(Math.max(c.open, c.close));
     const bodyBottom = toY(Math.min(c.open, c.close));
@@ -233,6 +269,286 @@ export function buildCandlePaths(
   }
 }
 
+// ── Tick aggregation ────────────────────────────────────────────────
+
+/**
+ * Start of the `widthSecs` bucket holding `t` (session seconds). With
+ * `tradingHours`, buckets count from each session's open, so the first
+ * candle of a day starts at the open bell; otherwise they align to the
+ * zone's wall clock (device local time when `zone` is null), so hourly and
+ * daily candles start on the hour and at local midnight.
+ */
+export function candleBucketStart(
+  t: number,
+  widthSecs: number,
+  zone: ResolvedTimeZone | null,
+  sessions: ResolvedSessions | null,
+): number {
+  "worklet";
+  if (sessions) {
+    const open = sessionStartAt(t, sessions);
+    return open + Math.floor((t - open) / widthSecs) * widthSecs;
+  }
+  const ms = t * 1000;
+  const widthMs = widthSecs * 1000;
+  const wallMs = ms + timeZoneOffsetMinutes(zone, ms) * 60_000;
+  const start = zonedWallToUtcMs(Math.floor(wallMs / widthMs) * widthMs, zone);
+  // A wall time skipped or repeated by DST can map past `t`
+  return (start <= ms ? start : ms - (wallMs % widthMs)) / 1000;
+}
+
+/**
+ * Running tick → candle aggregation over the packed points buffer, so the
+ * candles follow both `data` and streamed appends. Lives on the UI thread.
+ * Point indices are absolute (`base + i`), so trimming the buffer's front
+ * doesn't invalidate the candles already built.
+ */
+export interface CandleAggregator {
+  candles: CandlePoint[]; // committed buckets
+  heikinAshi: CandlePoint[]; // `candles` as Heikin-Ashi, kept in step
+  live: CandlePoint | null; // newest bucket, from points only
+  zone: ResolvedTimeZone | null;
+  sessions: ResolvedSessions | null;
+  liveStart: number; // index of the live bucket's first point
+  processed: number; // points folded so far
+  lastTime: number; // time of the last folded point
+  lastValue: number;
+  history: number; // history sequence the indices belong to
+  widthSecs: number;
+}
+
+export function createCandleAggregator(): CandleAggregator {
+  return {
+    candles: [],
+    heikinAshi: [],
+    live: null,
+    zone: null,
+    sessions: null,
+    liveStart: 0,
+    processed: 0,
+    lastTime: NaN,
+    lastValue: NaN,
+    history: NaN,
+    widthSecs: 0,
+  };
+}
+
+/**
+ * Fold new points of `buf` into `widthSecs` OHLC buckets (see
+ * `candleBucketStart`). `buf[0]` is point `base` of history `history`.
+ * Appends fold only the new points; new history, a last folded point that
+ * moved or was trimmed away, or a new zone or session table starts over.
+ * Returns true when the committed candles changed (new arrays on a
+ * restart, pushed in place otherwise).
+ */
+export function updateCandleAggregator(
+  agg: CandleAggregator,
+  buf: Float64Array,
+  count: number,
+  history: number,
+  base: number,
+  widthSecs: number,
+  zone: ResolvedTimeZone | null,
+  sessions: ResolvedSessions | null,
+): boolean {
+  "worklet";
+  const width = widthSecs > 0 ? widthSecs : 60;
+  const end = base + count;
+  const last = agg.processed - 1 - base;
+  let changed = false;
+  if (
+    history !== agg.history ||
+    end < agg.processed ||
+    (agg.processed > 0 &&
+      (last < 0 || !Object.is(buf[last * 2], agg.lastTime))) ||
+    width !== agg.widthSecs ||
+    zone !== agg.zone ||
+    sessions !== agg.sessions
+  ) {
+    agg.candles = [];
+    agg.heikinAshi = [];
+    agg.live = null;
+    agg.liveStart = base;
+    agg.processed = base;
+    agg.history = history;
+    agg.widthSecs = width;
+    agg.zone = zone;
+    agg.sessions = sessions;
+    changed = true;
+  }
+  const replaced =
+    !changed && last >= 0 && !Object.is(buf[last * 2 + 1], agg.lastValue);
+  if (!changed && !replaced && end === agg.processed) return false;
+
+  // A same-timestamp append replaces the newest value in place; the live
+  // bucket is then refolded from its first point (when still in `buf`)
+  let from = agg.processed;
+  let live = agg.live;
+  if (replaced && agg.liveStart >= base) {
+    from = agg.liveStart;
+    live = null;
+  }
+  for (let i = from; i < end; i++) {
+    const t = buf[(i - base) * 2];
+    const v = buf[(i - base) * 2 + 1];
+    const bucket = candleBucketStart(t, width, zone, sessions);
+    if (live && bucket !== live.time) {
+      const prevHa = agg.heikinAshi[agg.heikinAshi.length - 1] ?? null;
+      agg.candles.push(live);
+      agg.heikinAshi.push(heikinAshiCandle(prevHa, live));
+      agg.liveStart = i;
+      live = null;
+      changed = true;
+    }
+    if (!live) {
+      live = { time: bucket, open: v, high: v, low: v, close: v };
+      continue;
+    }
+    if (v > live.high) live.high = v;
+    if (v < live.low) live.low = v;
+    live.close = v;
+  }
+  agg.live = live;
+  agg.processed = end;
+  agg.lastTime = count > 0 ? buf[(count - 1) * 2] : NaN;
+  agg.lastValue = count > 0 ? buf[(count - 1) * 2 + 1] : NaN;
+  return changed;
+}
+
+/** Live candle closed at the live `value`. */
+export function withLiveClose(live: CandlePoint, value: number): CandlePoint {
+  "worklet";
+  if (!Number.isFinite(value)) return live;
+  return {
+    ...live,
+    high: Math.max(live.high, value),
+    low: Math.min(live.low, value),
+    close: value,
+  };
+}
+
+// ── Heikin-Ashi ─────────────────────────────────────────────────────
+
+/** Heikin-Ashi candle for raw `c`, given the previous Heikin-Ashi candle. */
+export function heikinAshiCandle(
+  prev: CandlePoint | null,
+  c: CandlePoint,
+): CandlePoint {
+  "worklet";
+  const close = (c.open + c.high + c.low + c.close) / 4;
+  const open = prev ? (prev.open + prev.close) / 2 : (c.open + c.close) / 2;
+  return {
+    time: c.time,
+    open,
+    high: Math.max(c.high, open, close),
+    low: Math.min(c.low, open, close),
+    close,
+    volume: c.volume,
+  };
+}
+
+/** Heikin-Ashi series for committed candles (JS thread). */
+export function toHeikinAshi(candles: CandlePoint[]): CandlePoint[] {
+  const out: CandlePoint[] = [];
+  for (let i = 0; i < candles.length; i++) {
+    out.push(heikinAshiCandle(i > 0 ? out[i - 1] : null, candles[i]));
+  }
+  return out;
+}
+
+/**
+ * Heikin-Ashi live candle, chained from the last committed Heikin-Ashi
+ * candle before it (feeds may also commit the live bucket).
+ */
+export function heikinAshiLive(
+  committed: CandlePoint[],
+  live: CandlePoint,
+): CandlePoint {
+  "worklet";
+  let i = committed.length - 1;
+  while (i >= 0 && committed[i].time >= live.time) i--;
+  return heikinAshiCandle(i >= 0 ? committed[i] : null, live);
+}
+
+// ── Build volume paths ──────────────────────────────────────────────
+
+export interface VolumePathResult {
+  bullBars: SkPath;
+  bearBars: SkPath;
+}
+
+/**
+ * Build batched volume bar paths for the pane under the candles.
+ * Each bar shares its candle's center X and body width, grows up from the
+ * pane bottom and is scaled against `maxVolume`. Candles without a volume
+ * are skipped.
+ *
+ * All paths should be rewound before calling this function.
+ */
+export function buildVolumePaths(
+  result: VolumePathResult,
+  candles: CandlePoint[],
+  candleWidthSecs: number,
+  chartW: number,
+  paddingLeft: number,
+  paneTop: number,
+  paneH: number,
+  leftEdge: number,
+  rightEdge: number,
+  maxVolume: number,
+  chartReveal: number,
+): void {
+  "worklet";
+  const span = rightEdge - leftEdge;
+  if (span <= 0 || paneH <= 0 || maxVolume <= 0) return;
+
+  const { bodyW, radius } = candleDims(
+    chartW,
+    leftEdge,
+    rightEdge,
+    candleWidthSecs,
+  );
+  const halfBody = bodyW / 2;
+  const paneBottom = paneTop + paneH;
+  // Bars rise with the same smoothstep ramp the OHLC reveal uses
+  const t =
+    chartReveal <= 0.3 ? 0 : chartReveal >= 1 ? 1 : (chartReveal - 0.3) / 0.7;
+  const reveal = t * t * (3 - 2 * t);
+
+  for (let i = 0; i < candles.length; i++) {
+    const c = candles[i];
+    const vol = c.volume;
+    if (vol === undefined || !(vol > 0)) continue;
+    const barH = Math.max(1, (Math.min(vol, maxVolume) / maxVolume) * paneH);
+    const h = barH * reveal;
+    if (h < 0.5) continue;
+    const cx =
+      paddingLeft + ((c.time + candleWidthSecs / 2 - leftEdge) / span) * chartW;
+    const path = c.close >= c.open ? result.bullBars : result.bearBars;
+    addRoundedRect(path, cx - halfBody, paneBottom - h, bodyW, h, radius);
+  }
+}
+
+export function maxCandleVolume(candles: CandlePoint[]): number {
+  "worklet";
+  let max = 0;
+  for (let i = 0; i < candles.length; i++) {
+    const v = candles[i].volume;
+    if (v !== undefined && v > max) max = v;
+  }
+  return max;
+}
+
+/** Compact volume text for the crosshair readout (e.g. 950, 12.4K, 3.1M). */
+export function formatVolume(v: number): string {
+  "worklet";
+  const abs = Math.abs(v);
+  if (abs >= 1e9) return `${(v / 1e9).toFixed(abs >= 1e10 ? 1 : 2)}B`;
+  if (abs >= 1e6) return `${(v / 1e6).toFixed(abs >= 1e7 ? 1 : 2)}M`;
+  if (abs >= 1e3) return `${(v / 1e3).toFixed(abs >= 1e4 ? 1 : 2)}K`;
+  return abs >= 10 ? `${Math.round(v)}` : v.toFixed(2).replace(/\.?0+$/, "");
+}
+
 // ── Binary search for candle at X position ──────────────────────────
 
 export function candleAtX(
@@ -273,7 +589,10 @@ export interface CandleRange {
   max: number;
 }
 
-export function computeCandleRange(candles: CandlePoint[]): CandleRange {
+export function computeCandleRange(
+  candles: CandlePoint[],
+  logScale = false,
+): CandleRange {
   "worklet";
   let min = Infinity;
   let max = -Infinity;
@@ -282,6 +601,11 @@ export function computeCandleRange(candles: CandlePoint[]): CandleRange {
     if (candles[i].high > max) max = candles[i].high;
   }
   if (!isFinite(min) || !isFinite(max)) return { min: 99, max: 101 };
+  if (logScale && min > 0) {
+    const out = { min, max };
+    padLogRange(out, min, max, 0.12);
+    return out;
+  }
   const range = max - min;
   const margin = range * 0.12;
   const minRange = range * 0.1 || 0.4;
@@ -1,6 +1,16 @@
-import { formatAxisValueWorklet } from "./grid";
-import type { TimeFormatPreset } from "../types";
+import { candleBucketStart } from "./candlestick";
+import { formatAxisValueWorklet, formatPercentChangeWorklet } from "./grid";
+import {
+  hasPercentBase,
+  toPercentChange,
+  valueToY,
+  type ValueScale,
+} from "../math/scale";
+import type { SeriesStack, TimeFormatPreset } from "../types";
 import { formatCrosshairTimeByPresetWorklet } from "./timeFormat";
+import { formatLocaleNumber, type ResolvedLocale } from "./locale";
+import { fromSessionTime, type ResolvedSessions } from "./sessions";
+import type { ResolvedTimeZone } from "./timeZone";
 
 // ── Multi-series crosshair ──────────────────────────────────────────
 
@@ -13,14 +23,17 @@ export interface MultiCrosshairEntry {
 }
 
 export interface MultiCrosshairResult {
+  // Grown on demand, one per visible series
   entries: MultiCrosshairEntry[];
   entryCount: number;
+  // Entry indices ordered top of the plot first, for tooltips that only
+  // have room for some of the entries
+  order: number[];
   timeText: string;
   opacity: number;
   _cachedTimeRounded: number;
 }
 
-const MAX_MULTI_CROSSHAIR_ENTRIES = 8;
 const CROSSHAIR_FADE_MIN_PX = 5;
 
 function clampValue(n: number, min: number, max: number): number {
@@ -28,7 +41,8 @@ function clampValue(n: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, n));
 }
 
-function interpolateSeriesAtTime(
+/** Linear interpolation of a packed series at `t`, clamped to its ends. */
+export function interpolateSeriesAtTime(
   buf: Float64Array,
   count: number,
   t: number,
@@ -61,14 +75,16 @@ function interpolateSeriesAtTime(
   return v0 + (v1 - v0) * u;
 }
 
+function createMultiCrosshairEntry(): MultiCrosshairEntry {
+  "worklet";
+  return { color: "", label: "", value: 0, valueText: "", y: 0 };
+}
+
 export function createMultiCrosshairResult(): MultiCrosshairResult {
-  const entries: MultiCrosshairEntry[] = [];
-  for (let i = 0; i < MAX_MULTI_CROSSHAIR_ENTRIES; i++) {
-    entries.push({ color: "", label: "", value: 0, valueText: "", y: 0 });
-  }
   return {
-    entries,
+    entries: [],
     entryCount: 0,
+    order: [],
     timeText: "",
     opacity: 0,
     _cachedTimeRounded: Number.NaN,
@@ -77,8 +93,12 @@ export function createMultiCrosshairResult(): MultiCrosshairResult {
 
 /**
  * Compute multi-series crosshair state: for each visible series, interpolate
- * at hover time and compute Y position. Pre-allocated entries avoid per-frame
- * object allocations.
+ * at hover time and compute Y position. Entries are reused across frames
+ * (and only grow) to avoid per-frame object allocations. On a percent scale each series is plotted as an index
+ * (100 at `seriesPercentBases[i]`) and reads as its own percent change.
+ * Series with `seriesAxes[i] === 1` sit on the left axis range and format
+ * with the left axis formatter. With `stack` on, each entry sits on its
+ * layer's top and reads its own value plus its share of the column total.
  */
 export function updateMultiCrosshairState(
   hoverX: number,
@@ -92,6 +112,12 @@ export function updateMultiCrosshairState(
   windowSecsNow: number,
   rangeMin: number,
   rangeSpan: number,
+  scale: ValueScale | null,
+  seriesPercentBases: number[],
+  seriesAxes: number[],
+  leftRangeMin: number,
+  leftRangeSpan: number,
+  stack: SeriesStack,
   paddingLeft: number,
   paddingTop: number,
   innerWidth: number,
@@ -99,56 +125,120 @@ export function updateMultiCrosshairState(
   liveDotX: number,
   scrubAmount: number,
   formatValueWorklet: ((v: number) => string) | undefined,
+  formatLeftValueWorklet: ((v: number) => string) | undefined,
   formatTimeWorklet: ((t: number) => string) | undefined,
   formatCrosshairTimeWorklet:
     | ((tMs: number, windowSecs: number) => string)
     | undefined,
   timeFormatPreset: TimeFormatPreset | undefined,
+  timeZone: ResolvedTimeZone | null,
+  locale: ResolvedLocale | null,
+  sessions: ResolvedSessions | null,
   out: MultiCrosshairResult,
 ): void {
   "worklet";
 
   const hx = clampValue(hoverX, paddingLeft, paddingLeft + innerWidth);
   const ht = start + ((hx - paddingLeft) / innerWidth) * windowSecsNow;
+  const log = scale !== null && scale.log;
+  const percent = scale !== null && hasPercentBase(scale);
+
+  // Stacked layers sit on the running total of the visible layers below
+  const stacked = stack !== "none";
+  let stackTotal = 0;
+  let stackSum = 0;
+  if (stacked) {
+    for (let i = 0; i < seriesCount; i++) {
+      if (seriesAlphas[i] < 0.5 || seriesCounts[i] === 0) continue;
+      stackTotal += interpolateSeriesAtTime(
+        seriesBuffers[i],
+        seriesCounts[i],
+        ht,
+      );
+    }
+  }
 
   let entryIdx = 0;
-  for (
-    let i = 0;
-    i < seriesCount && entryIdx < MAX_MULTI_CROSSHAIR_ENTRIES;
-    i++
-  ) {
+  for (let i = 0; i < seriesCount; i++) {
     if (seriesAlphas[i] < 0.5) continue;
     const buf = seriesBuffers[i];
     const count = seriesCounts[i];
     if (count === 0) continue;
 
     const hv = interpolateSeriesAtTime(buf, count, ht);
-    const hy =
-      paddingTop +
-      (1 - (hv - rangeMin) / Math.max(rangeSpan, 1e-6)) * innerHeight;
-
+    const base = percent ? seriesPercentBases[i] : Number.NaN;
+    const rebased = Number.isFinite(base) && base > 0;
+    const onLeft = seriesAxes[i] === 1;
+    let plotted = rebased ? (hv / base) * 100 : hv;
+    if (stacked) {
+      stackSum += hv;
+      plotted =
+        stack !== "percent"
+          ? stackSum
+          : stackTotal !== 0
+            ? (stackSum / stackTotal) * 100
+            : 0;
+    }
+    const hy = valueToY(
+      plotted,
+      onLeft ? leftRangeMin : rangeMin,
+      Math.max(onLeft ? leftRangeSpan : rangeSpan, 1e-6),
+      paddingTop,
+      innerHeight,
+      log,
+    );
+    const format = onLeft ? formatLeftValueWorklet : formatValueWorklet;
+
+    if (entryIdx >= out.entries.length) {
+      out.entries.push(createMultiCrosshairEntry());
+    }
     const entry = out.entries[entryIdx];
     entry.color = seriesColors[i];
     entry.label = seriesLabels[i];
     entry.value = hv;
-    entry.valueText = formatValueWorklet
-      ? formatValueWorklet(hv)
-      : formatAxisValueWorklet(hv);
+    entry.valueText = rebased
+      ? formatPercentChangeWorklet(toPercentChange(hv, base), 2, locale)
+      : format
+        ? format(hv)
+        : formatAxisValueWorklet(hv);
+    if (stacked) {
+      const share = stackTotal !== 0 ? (hv / stackTotal) * 100 : 0;
+      entry.valueText += ` (${formatLocaleNumber(share, 1, locale)}%)`;
+    }
     entry.y = hy;
     entryIdx++;
   }
   out.entryCount = entryIdx;
 
+  // Insertion sort by y: few entries, and nearly sorted frame to frame
+  const order = out.order;
+  order.length = entryIdx;
+  for (let i = 0; i < entryIdx; i++) {
+    const y = out.entries[i].y;
+    let j = i - 1;
+    while (j >= 0 && out.entries[order[j]].y > y) {
+      order[j + 1] = order[j];
+      j--;
+    }
+    order[j + 1] = i;
+  }
+
   // Cache time text
   const roundedTime = Math.round(ht);
   if (roundedTime !== out._cachedTimeRounded) {
     out._cachedTimeRounded = roundedTime;
-    const tMs = ht * 1000;
+    const tMs = fromSessionTime(ht, sessions) * 1000;
     out.timeText = formatCrosshairTimeWorklet
       ? formatCrosshairTimeWorklet(tMs, windowSecsNow)
       : formatTimeWorklet
         ? formatTimeWorklet(tMs)
-        : formatCrosshairTimeByPresetWorklet(tMs, windowSecsNow, timeFormatPreset);
+        : formatCrosshairTimeByPresetWorklet(
+            tMs,
+            windowSecsNow,
+            timeFormatPreset,
+            timeZone,
+            locale,
+          );
   }
 
   // Opacity with live-dot fade
@@ -179,7 +269,7 @@ function ptV(buf: Float64Array, i: number): number {
 export interface CrosshairResult {
   hx: number;
   hy: number;
-  ht: number;
+  ht: number; // unix seconds (real time, also under tradingHours)
   hv: number;
   valueText: string;
   timeText: string;
@@ -300,20 +390,63 @@ export function interpolateAtTime(
   );
 }
 
+/**
+ * Value of the bar covering `t` (its interval's last point, bucketed as in
+ * `buildBarPaths`), or 0 for an interval without one. The live interval
+ * reads `liveValue`, the value its bar is drawn at.
+ */
+function barValueAtTime(
+  buf: Float64Array,
+  count: number,
+  t: number,
+  widthSecs: number,
+  liveValue: number,
+  zone: ResolvedTimeZone | null,
+  sessions: ResolvedSessions | null,
+): number {
+  "worklet";
+  const bucket = candleBucketStart(t, widthSecs, zone, sessions);
+  if (count === 0 || ptT(buf, 0) >= bucket + widthSecs) return 0;
+  const liveBucket = candleBucketStart(
+    ptT(buf, count - 1),
+    widthSecs,
+    zone,
+    sessions,
+  );
+  if (bucket === liveBucket) return liveValue;
+  // Last point before the interval ends
+  let lo = 0;
+  let hi = count - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (ptT(buf, mid) < bucket + widthSecs) lo = mid;
+    else hi = mid - 1;
+  }
+  return candleBucketStart(ptT(buf, lo), widthSecs, zone, sessions) === bucket
+    ? ptV(buf, lo)
+    : 0;
+}
+
 /**
  * Compute crosshair hover state: interpolated position, formatted text,
  * and opacity with live-dot fade.  Writes into pre-allocated `out` param
  * to avoid per-frame object allocation. String formatting is cached —
- * only re-runs when the rounded value/time changes.
+ * only re-runs when the rounded value/time changes. A percent `scale`
+ * reads out the change from its base instead of the value. A positive
+ * `barWidthSecs` reads the bar under the hover instead of the spline, the
+ * live bar at `liveBarValue`.
  */
 export function updateCrosshairState(
   hoverX: number,
   buf: Float64Array,
   count: number,
+  barWidthSecs: number,
+  liveBarValue: number,
   start: number,
   windowSecsNow: number,
   rangeMin: number,
   rangeSpan: number,
+  scale: ValueScale | null,
   paddingLeft: number,
   paddingTop: number,
   innerWidth: number,
@@ -326,37 +459,66 @@ export function updateCrosshairState(
     | ((tMs: number, windowSecs: number) => string)
     | undefined,
   timeFormatPreset: TimeFormatPreset | undefined,
+  timeZone: ResolvedTimeZone | null,
+  locale: ResolvedLocale | null,
+  sessions: ResolvedSessions | null,
   out: CrosshairResult,
 ): void {
   "worklet";
 
   const hx = clampValue(hoverX, paddingLeft, paddingLeft + innerWidth);
   const ht = start + ((hx - paddingLeft) / innerWidth) * windowSecsNow;
-  const hv = interpolateAtTime(buf, count, ht);
-  const hy =
-    paddingTop +
-    (1 - (hv - rangeMin) / Math.max(rangeSpan, 1e-6)) * innerHeight;
+  const hv =
+    barWidthSecs > 0
+      ? barValueAtTime(
+          buf,
+          count,
+          ht,
+          barWidthSecs,
+          liveBarValue,
+          timeZone,
+          sessions,
+        )
+      : interpolateAtTime(buf, count, ht);
+  const hy = valueToY(
+    hv,
+    rangeMin,
+    Math.max(rangeSpan, 1e-6),
+    paddingTop,
+    innerHeight,
+    scale !== null && scale.log,
+  );
+  const percent = scale !== null && hasPercentBase(scale);
+  const shown = percent ? toPercentChange(hv, scale.percentBase) : hv;
 
   // Cache formatted strings: only re-format when rounded value/time changes.
   // This eliminates ~14 string allocations + 1 Date object per frame during scrub.
-  const roundedValue = Math.round(hv * 100) / 100;
+  const roundedValue = Math.round(shown * 100) / 100;
   if (roundedValue !== out._cachedValueRounded) {
     out._cachedValueRounded = roundedValue;
-    out.valueText = formatValueWorklet
-      ? formatValueWorklet(hv)
-      : formatAxisValueWorklet(hv);
+    out.valueText = percent
+      ? formatPercentChangeWorklet(shown, 2, locale)
+      : formatValueWorklet
+        ? formatValueWorklet(hv)
+        : formatAxisValueWorklet(hv);
   }
 
   // Round time to nearest second to avoid unnecessary text churn while scrubbing.
   const roundedTime = Math.round(ht);
   if (roundedTime !== out._cachedTimeRounded) {
     out._cachedTimeRounded = roundedTime;
-    const tMs = ht * 1000;
+    const tMs = fromSessionTime(ht, sessions) * 1000;
     out.timeText = formatCrosshairTimeWorklet
       ? formatCrosshairTimeWorklet(tMs, windowSecsNow)
       : formatTimeWorklet
         ? formatTimeWorklet(tMs)
-        : formatCrosshairTimeByPresetWorklet(tMs, windowSecsNow, timeFormatPreset);
+        : formatCrosshairTimeByPresetWorklet(
+            tMs,
+            windowSecsNow,
+            timeFormatPreset,
+            timeZone,
+            locale,
+          );
   }
 
   const distToLive = dotX - hx;
@@ -372,7 +534,7 @@ export function updateCrosshairState(
 
   out.hx = hx;
   out.hy = hy;
-  out.ht = ht;
+  out.ht = fromSessionTime(ht, sessions);
   out.hv = hv;
   out.opacity = clampValue(scrubOpacity, 0, 1);
 }
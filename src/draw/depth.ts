@@ -0,0 +1,179 @@
+import type { SkPath } from "@shopify/react-native-skia";
+import { valueToY } from "../math/scale";
+import type { OrderbookData } from "../types";
+
+/**
+ * Depth sidebar (`depth`).
+ *
+ * Cumulative bid and ask sizes drawn as step areas against price, to the
+ * right of the plot and on the same value axis. Sizes grow away from the
+ * plot; each step sits at a level's price.
+ */
+
+export interface DepthBook {
+  // Best level first: bids by descending price, asks by ascending price
+  bidPrices: number[];
+  bidTotals: number[]; // cumulative size up to and including the level
+  askPrices: number[];
+  askTotals: number[];
+}
+
+export interface DepthPathResult {
+  bids: SkPath;
+  asks: SkPath;
+}
+
+function cumulativeSide(
+  levels: [price: number, size: number][],
+  descending: boolean,
+): { prices: number[]; totals: number[] } {
+  const clean = levels.filter(
+    (level) =>
+      Number.isFinite(level?.[0]) &&
+      Number.isFinite(level?.[1]) &&
+      level[1] > 0,
+  );
+  clean.sort((a, b) => (descending ? b[0] - a[0] : a[0] - b[0]));
+  const prices: number[] = [];
+  const totals: number[] = [];
+  let total = 0;
+  for (const [price, size] of clean) {
+    total += size;
+    prices.push(price);
+    totals.push(total);
+  }
+  return { prices, totals };
+}
+
+/** Sort and accumulate both sides of the book (JS thread). */
+export function resolveDepthBook(book: OrderbookData | undefined): DepthBook {
+  const bids = cumulativeSide(book?.bids ?? [], true);
+  const asks = cumulativeSide(book?.asks ?? [], false);
+  return {
+    bidPrices: bids.prices,
+    bidTotals: bids.totals,
+    askPrices: asks.prices,
+    askTotals: asks.totals,
+  };
+}
+
+/**
+ * Largest cumulative size at a price inside [rangeMin, rangeMax], so the
+ * visible part of the book fills the sidebar. Falls back to the deeper
+ * side's total when no level is in range.
+ */
+export function visibleDepthMax(
+  book: DepthBook,
+  rangeMin: number,
+  rangeMax: number,
+): number {
+  "worklet";
+  let max = 0;
+  for (let i = 0; i < book.bidPrices.length; i++) {
+    if (book.bidPrices[i] < rangeMin) break;
+    if (book.bidPrices[i] <= rangeMax) max = Math.max(max, book.bidTotals[i]);
+  }
+  for (let i = 0; i < book.askPrices.length; i++) {
+    if (book.askPrices[i] > rangeMax) break;
+    if (book.askPrices[i] >= rangeMin) max = Math.max(max, book.askTotals[i]);
+  }
+  if (max > 0) return max;
+  const bidTotal = book.bidTotals[book.bidTotals.length - 1] ?? 0;
+  const askTotal = book.askTotals[book.askTotals.length - 1] ?? 0;
+  return Math.max(bidTotal, askTotal);
+}
+
+function buildDepthSide(
+  path: SkPath,
+  prices: number[],
+  totals: number[],
+  left: number,
+  width: number,
+  maxDepth: number,
+  toY: (v: number) => number,
+): void {
+  "worklet";
+  const n = prices.length;
+  if (n === 0) return;
+  const toX = (total: number): number => {
+    "worklet";
+    return left + Math.min(total / maxDepth, 1) * width;
+  };
+  const y0 = toY(prices[0]);
+  path.moveTo(left, y0);
+  path.lineTo(toX(totals[0]), y0);
+  for (let i = 1; i < n; i++) {
+    const y = toY(prices[i]);
+    path.lineTo(toX(totals[i - 1]), y);
+    path.lineTo(toX(totals[i]), y);
+  }
+  path.lineTo(left, toY(prices[n - 1]));
+  path.close();
+}
+
+/**
+ * Build the bid and ask step areas. `reveal` scales sizes during the chart
+ * reveal.
+ *
+ * All paths should be rewound before calling this function.
+ */
+export function buildDepthPaths(
+  result: DepthPathResult,
+  book: DepthBook,
+  left: number,
+  width: number,
+  paddingTop: number,
+  chartH: number,
+  rangeMin: number,
+  rangeSpan: number,
+  logScale: boolean,
+  maxDepth: number,
+  reveal: number,
+): void {
+  "worklet";
+  if (width <= 0 || maxDepth <= 0 || reveal <= 0) return;
+  const toY = (v: number): number => {
+    "worklet";
+    return valueToY(v, rangeMin, rangeSpan, paddingTop, chartH, logScale);
+  };
+  const scaledMax = maxDepth / reveal;
+  buildDepthSide(
+    result.bids,
+    book.bidPrices,
+    book.bidTotals,
+    left,
+    width,
+    scaledMax,
+    toY,
+  );
+  buildDepthSide(
+    result.asks,
+    book.askPrices,
+    book.askTotals,
+    left,
+    width,
+    scaledMax,
+    toY,
+  );
+}
+
+/**
+ * Cumulative size resting at `price` or better: positive on the bid side,
+ * negative on the ask side, 0 inside the spread.
+ */
+export function depthAtPrice(book: DepthBook, price: number): number {
+  "worklet";
+  const bids = book.bidPrices;
+  if (bids.length > 0 && price <= bids[0]) {
+    let i = 0;
+    while (i + 1 < bids.length && bids[i + 1] >= price) i++;
+    return book.bidTotals[i];
+  }
+  const asks = book.askPrices;
+  if (asks.length > 0 && price >= asks[0]) {
+    let i = 0;
+    while (i + 1 < asks.length && asks[i + 1] <= price) i++;
+    return -book.askTotals[i];
+  }
+  return 0;
+}
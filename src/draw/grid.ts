@@ -1,3 +1,11 @@
+import {
+  hasPercentBase,
+  toPercentChange,
+  valueToY,
+  type ValueScale,
+} from "../math/scale";
+import { formatLocaleNumber, type ResolvedLocale } from "./locale";
+
 export const MAX_GRID_LABELS = 24;
 
 /** Maximum number of candidate ticks per frame (coarse + fine). */
@@ -45,6 +53,24 @@ const DIVISOR_SET_1 = [2, 2, 2.5] as const;
 const DIVISOR_SET_2 = [2.5, 2, 2] as const;
 const DIVISOR_SETS = [DIVISOR_SET_0, DIVISOR_SET_1, DIVISOR_SET_2] as const;
 
+// Log scale: ticks per decade, sparsest first, and the tightest gap of each
+// set in decades (9 → 10, 1 → 2 / 5 → 10, 1 → 10)
+const LOG_MANTISSA_SET_0 = [1] as const;
+const LOG_MANTISSA_SET_1 = [1, 2, 5] as const;
+const LOG_MANTISSA_SET_2 = [1, 2, 3, 4, 5, 6, 7, 8, 9] as const;
+const LOG_MANTISSA_SETS = [
+  LOG_MANTISSA_SET_0,
+  LOG_MANTISSA_SET_1,
+  LOG_MANTISSA_SET_2,
+] as const;
+const LOG_MANTISSA_GAPS = [1, Math.log10(2), Math.log10(10 / 9)] as const;
+// Below this many decades a log range gets linear ticks
+const LOG_GRID_MIN_DECADES = 1;
+// Fractional key offsets keep log / percent ticks from matching a linear
+// tick's slot (and its stale text) when the scale changes
+const LOG_KEY_OFFSET = 0.25;
+const PERCENT_KEY_OFFSET = 0.5;
+
 function alphaLerp(
   from: number,
   to: number,
@@ -66,8 +92,10 @@ function formatWorkletValue(
   return formatAxisValueWorklet(v);
 }
 
-export function createGridSlots(): GridLabelSlot[] {
-  return Array.from({ length: MAX_GRID_LABELS }, () => ({
+export function createGridSlots(
+  count: number = MAX_GRID_LABELS,
+): GridLabelSlot[] {
+  return Array.from({ length: count }, () => ({
     key: Number.MIN_SAFE_INTEGER,
     y: -1000,
     value: 0,
@@ -122,27 +150,121 @@ export function gridDivisible(v: number, coarse: number): boolean {
   return Math.abs(ratio - Math.round(ratio)) < 1e-6;
 }
 
-export function formatAxisValueWorklet(n: number): string {
+/** Two decimals with digit grouping, e.g. "1,234.50" (or per `locale`). */
+export function formatAxisValueWorklet(
+  n: number,
+  locale: ResolvedLocale | null = null,
+): string {
+  "worklet";
+  return formatLocaleNumber(n, 2, locale);
+}
+
+/** Signed percent change, e.g. "+2.5%", "-0.25%" (or per `locale`). */
+export function formatPercentChangeWorklet(
+  p: number,
+  decimals: number,
+  locale: ResolvedLocale | null = null,
+): string {
+  "worklet";
+  const rounded = Number(p.toFixed(decimals));
+  const sign = rounded > 0 ? "+" : rounded < 0 ? "-" : "";
+  return `${sign}${formatLocaleNumber(Math.abs(rounded), decimals, locale)}%`;
+}
+
+function tickEdgeAlpha(
+  y: number,
+  paddingTop: number,
+  bottom: number,
+  fadeZone: number,
+): number {
+  "worklet";
+  const fromEdge = Math.min(y - paddingTop, bottom - y);
+  if (fromEdge <= 0) return 0;
+  return fromEdge < fadeZone ? fromEdge / fadeZone : 1;
+}
+
+/**
+ * Decade ticks for a log scale: the densest mantissa set whose tightest gap
+ * clears `minGap` is coarse, the next denser one fades in as fine ticks.
+ * Returns the tick count written into `buf`.
+ */
+function fillLogGridTicks(
+  buf: GridScratch,
+  rangeMin: number,
+  rangeSpan: number,
+  chartH: number,
+  paddingTop: number,
+  bottom: number,
+  minGap: number,
+  fadeZone: number,
+  gridTimeReveal: number,
+): number {
   "worklet";
-  if (!Number.isFinite(n)) return "0.00";
-  const fixed = n.toFixed(2);
-  const parts = fixed.split(".");
-  const frac = parts[1] ?? "00";
-  let whole = parts[0] ?? "0";
-  const negative = whole.startsWith("-");
-  if (negative) whole = whole.slice(1);
-  let grouped = "";
-  for (let i = 0; i < whole.length; i += 1) {
-    const idxFromEnd = whole.length - i;
-    grouped += whole[i];
-    if (idxFromEnd > 1 && idxFromEnd % 3 === 1) grouped += ",";
+  const rangeMax = rangeMin + rangeSpan;
+  const pxPerDecade = chartH / Math.log10(rangeMax / rangeMin);
+  let coarseSet = 0;
+  while (
+    coarseSet + 1 < LOG_MANTISSA_SETS.length &&
+    LOG_MANTISSA_GAPS[coarseSet + 1] * pxPerDecade >= minGap
+  ) {
+    coarseSet += 1;
   }
-  return `${negative ? "-" : ""}${grouped}.${frac}`;
+  // Crowded decades: label every `decadeStep`-th one
+  const decadeStep = Math.max(1, Math.ceil(minGap / pxPerDecade));
+  const fineSet = Math.min(coarseSet + 1, LOG_MANTISSA_SETS.length - 1);
+  const finePx = LOG_MANTISSA_GAPS[fineSet] * pxPerDecade;
+  const fineTarget =
+    decadeStep > 1 || fineSet === coarseSet
+      ? 0
+      : finePx < 40
+        ? 0
+        : finePx >= 60
+          ? 1
+          : (finePx - 40) / 20;
+  const coarseMantissas = LOG_MANTISSA_SETS[coarseSet];
+  const fineMantissas = LOG_MANTISSA_SETS[fineSet];
+
+  let tickCount = 0;
+  const firstDecade = Math.floor(Math.log10(rangeMin));
+  const lastDecade = Math.ceil(Math.log10(rangeMax));
+  for (
+    let d = firstDecade;
+    d <= lastDecade && tickCount < MAX_GRID_TICKS;
+    d += 1
+  ) {
+    const decade = Math.pow(10, d);
+    for (let m = 0; m < fineMantissas.length; m += 1) {
+      const mantissa = fineMantissas[m];
+      const v = mantissa * decade;
+      if (v < rangeMin || v > rangeMax) continue;
+      const y = valueToY(v, rangeMin, rangeSpan, paddingTop, chartH, true);
+      if (y < paddingTop - 2 || y > bottom + 2) continue;
+      let isCoarse = false;
+      for (let c = 0; c < coarseMantissas.length; c += 1) {
+        if (coarseMantissas[c] === mantissa) isCoarse = true;
+      }
+      const onStep = ((d % decadeStep) + decadeStep) % decadeStep === 0;
+      if (decadeStep > 1 && (!isCoarse || !onStep)) continue;
+      const target =
+        (isCoarse ? 1 : fineTarget) *
+        tickEdgeAlpha(y, paddingTop, bottom, fadeZone) *
+        gridTimeReveal;
+      buf.keys[tickCount] = Math.round(Math.log10(v) * 1e6) + LOG_KEY_OFFSET;
+      buf.values[tickCount] = v;
+      buf.ys[tickCount] = y;
+      buf.targets[tickCount] = target;
+      tickCount += 1;
+      if (tickCount >= MAX_GRID_TICKS) break;
+    }
+  }
+  return tickCount;
 }
 
 /**
  * Update grid label slots: compute coarse/fine intervals, position labels,
- * fade in/out with edge zones, recycle empty slots.
+ * fade in/out with edge zones, recycle empty slots. A log `scale` uses
+ * multiplicative decade steps once the range spans a decade; a percent
+ * scale picks nice steps in percent change from `scale.percentBase`.
  * Writes the new interval and dirty flag into the pre-allocated `out` param
  * to avoid per-frame object allocation.
  */
@@ -159,52 +281,93 @@ export function updateGridSlots(
   ratio: number,
   gridTimeReveal: number,
   formatValueWorklet: ((v: number) => string) | undefined,
+  scale: ValueScale | null,
+  locale: ResolvedLocale | null,
   buf: GridScratch,
   out: GridResult,
 ): void {
   "worklet";
 
   const chartH = innerHeight;
-  const pxPerUnit = chartH / Math.max(rangeSpan, 1e-9);
-  const coarse = pickGridInterval(rangeSpan, pxPerUnit, 36, currentInterval);
-
-  const fine = coarse * 0.5;
-  const finePx = fine * pxPerUnit;
-  const fineTarget = finePx < 40 ? 0 : finePx >= 60 ? 1 : (finePx - 40) / 20;
   const fadeZone = 32;
+  const bottom = height - paddingBottom;
+  const log = scale !== null && scale.log && rangeMin > 0;
+  const percentBase =
+    scale !== null && hasPercentBase(scale) ? scale.percentBase : Number.NaN;
+  const percent = !log && Number.isFinite(percentBase);
+  const useLogTicks =
+    log &&
+    Math.log10((rangeMin + rangeSpan) / rangeMin) >= LOG_GRID_MIN_DECADES;
 
   const keys = buf.keys;
   const vals = buf.values;
   const yBuf = buf.ys;
   const tgts = buf.targets;
   let tickCount = 0;
+  let coarse = 0;
+  let fine = 0;
 
-  if (fine > 0 && Number.isFinite(fine)) {
-    const bottom = height - paddingBottom;
-    const startIdx = Math.ceil(rangeMin / fine);
-    const endIdx = Math.floor(rangeMax / fine);
-    for (
-      let idx = startIdx;
-      idx <= endIdx && tickCount < MAX_GRID_TICKS;
-      idx += 1
-    ) {
-      const v = idx * fine;
-      const y =
-        paddingTop + (1 - (v - rangeMin) / Math.max(rangeSpan, 1e-9)) * chartH;
-      if (y < paddingTop - 2 || y > bottom + 2) continue;
-      const isCoarse = gridDivisible(v, coarse);
-      const fromEdge = Math.min(y - paddingTop, bottom - y);
-      let edgeAlpha = 1;
-      if (fromEdge <= 0) edgeAlpha = 0;
-      else if (fromEdge < fadeZone) edgeAlpha = fromEdge / fadeZone;
-      const target = (isCoarse ? 1 : fineTarget) * edgeAlpha * gridTimeReveal;
-      keys[tickCount] = Math.round(v * 1000);
-      vals[tickCount] = v;
-      yBuf[tickCount] = y;
-      tgts[tickCount] = target;
-      tickCount += 1;
+  if (useLogTicks) {
+    tickCount = fillLogGridTicks(
+      buf,
+      rangeMin,
+      rangeSpan,
+      chartH,
+      paddingTop,
+      bottom,
+      36,
+      fadeZone,
+      gridTimeReveal,
+    );
+  } else {
+    // Steps are picked in label units: values, or percent change
+    const unitsPerValue = percent ? 100 / percentBase : 1;
+    const unitMin = percent ? toPercentChange(rangeMin, percentBase) : rangeMin;
+    const unitMax = percent ? toPercentChange(rangeMax, percentBase) : rangeMax;
+    const unitSpan = rangeSpan * unitsPerValue;
+    const pxPerUnit = chartH / Math.max(unitSpan, 1e-9);
+    coarse = pickGridInterval(unitSpan, pxPerUnit, 36, currentInterval);
+
+    fine = coarse * 0.5;
+    const finePx = fine * pxPerUnit;
+    const fineTarget = finePx < 40 ? 0 : finePx >= 60 ? 1 : (finePx - 40) / 20;
+
+    if (fine > 0 && Number.isFinite(fine)) {
+      const startIdx = Math.ceil(unitMin / fine);
+      const endIdx = Math.floor(unitMax / fine);
+      for (
+        let idx = startIdx;
+        idx <= endIdx && tickCount < MAX_GRID_TICKS;
+        idx += 1
+      ) {
+        const u = idx * fine;
+        const v = percent ? percentBase * (1 + u / 100) : u;
+        const y = valueToY(v, rangeMin, rangeSpan, paddingTop, chartH, log);
+        if (y < paddingTop - 2 || y > bottom + 2) continue;
+        const isCoarse = gridDivisible(u, coarse);
+        const target =
+          (isCoarse ? 1 : fineTarget) *
+          tickEdgeAlpha(y, paddingTop, bottom, fadeZone) *
+          gridTimeReveal;
+        keys[tickCount] =
+          Math.round(u * 1000) + (percent ? PERCENT_KEY_OFFSET : 0);
+        vals[tickCount] = u;
+        yBuf[tickCount] = y;
+        tgts[tickCount] = target;
+        tickCount += 1;
+      }
     }
   }
+  // Percent labels keep as many decimals as the fine step needs
+  let percentDecimals = 0;
+  while (
+    percentDecimals < 4 &&
+    Math.abs(
+      fine * 10 ** percentDecimals - Math.round(fine * 10 ** percentDecimals),
+    ) > 1e-6
+  ) {
+    percentDecimals += 1;
+  }
 
   // Reset used flags for this frame's ticks
   const used = buf.used;
@@ -302,13 +465,16 @@ export function updateGridSlots(
       slots[best].key = keys[j];
       slots[best].value = vals[j];
       slots[best].y = yBuf[j];
-      slots[best].text = formatWorkletValue(formatValueWorklet, vals[j]);
+      slots[best].text = percent
+        ? formatPercentChangeWorklet(vals[j], percentDecimals, locale)
+        : formatWorkletValue(formatValueWorklet, vals[j]);
       slots[best].alpha = tgts[j] * GRID_FADE_IN;
       dirty = true;
     }
   }
 
   out.dirty = dirty;
+  // Log decade ticks carry no linear interval to keep between frames
   out.interval = coarse;
 }
 
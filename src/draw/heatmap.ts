@@ -0,0 +1,229 @@
+import type { SkPath } from "@shopify/react-native-skia";
+import { valueToY } from "../math/scale";
+import type { OrderbookSnapshot } from "../types";
+import { toSessionTime, type ResolvedSessions } from "./sessions";
+
+/**
+ * Orderbook heatmap (`orderbookHistory`).
+ *
+ * Each snapshot is a column that lasts until the next one (the newest runs
+ * to the live edge). Its levels are summed into fixed-height price rows on
+ * the current value mapping, and each row's resting size picks one of
+ * `HEATMAP_LEVELS` opacity paths, the same bucketing the particles use.
+ * Snapshots closer together than a pixel share one column.
+ */
+
+export const HEATMAP_LEVELS = 4;
+// Newest snapshots kept; older history is dropped
+export const MAX_HEATMAP_SNAPSHOTS = 2000;
+// Height of one price bucket
+const HEATMAP_ROW_PX = 4;
+
+export interface ResolvedHeatmap {
+  times: number[]; // ascending session seconds
+  // Column i's levels are offsets[i] .. offsets[i + 1] - 1
+  offsets: number[];
+  prices: number[];
+  sizes: number[]; // bids and asks alike; only resting size matters
+}
+
+export interface HeatmapScratch {
+  rows: Float64Array; // one snapshot's row sums
+  merged: Float64Array; // the column's per-row maxima
+}
+
+export function createHeatmapScratch(): HeatmapScratch {
+  return { rows: new Float64Array(0), merged: new Float64Array(0) };
+}
+
+/**
+ * Flatten the newest `MAX_HEATMAP_SNAPSHOTS` snapshots' levels (JS thread).
+ * Time-ordered history, the usual append-only feed, is sliced without a
+ * sort, so an update costs the kept tail rather than the whole history.
+ */
+export function resolveHeatmap(
+  snapshots: OrderbookSnapshot[] | undefined,
+  sessions: ResolvedSessions | null,
+): ResolvedHeatmap {
+  const all = snapshots ?? [];
+  const valid = (snapshot: OrderbookSnapshot | undefined): boolean =>
+    Number.isFinite(snapshot?.time);
+  let ordered = true;
+  let prevTime = -Infinity;
+  for (let i = 0; i < all.length && ordered; i++) {
+    if (!valid(all[i])) continue;
+    ordered = all[i].time >= prevTime;
+    prevTime = all[i].time;
+  }
+  const sorted = ordered
+    ? all.slice(-MAX_HEATMAP_SNAPSHOTS).filter(valid)
+    : all
+        .filter(valid)
+        .sort((a, b) => a.time - b.time)
+        .slice(-MAX_HEATMAP_SNAPSHOTS);
+  const times: number[] = [];
+  const offsets: number[] = [0];
+  const prices: number[] = [];
+  const sizes: number[] = [];
+  for (const snapshot of sorted) {
+    for (const [price, size] of [...snapshot.bids, ...snapshot.asks]) {
+      if (!Number.isFinite(price) || !Number.isFinite(size) || size <= 0) {
+        continue;
+      }
+      prices.push(price);
+      sizes.push(size);
+    }
+    times.push(toSessionTime(snapshot.time, sessions));
+    offsets.push(prices.length);
+  }
+  return { times, offsets, prices, sizes };
+}
+
+/** Add one column's cells from its per-row sizes. */
+function addHeatmapColumn(
+  paths: SkPath[],
+  rows: Float64Array,
+  rowCount: number,
+  x0: number,
+  x1: number,
+  paddingTop: number,
+  bottom: number,
+  maxSize: number,
+  out: { max: number },
+): void {
+  "worklet";
+  for (let r = 0; r < rowCount; r++) {
+    const size = rows[r];
+    if (size <= 0) continue;
+    if (size > out.max) out.max = size;
+    if (maxSize <= 0) continue;
+    const intensity = Math.sqrt(Math.min(size / maxSize, 1));
+    const level = Math.min(
+      HEATMAP_LEVELS - 1,
+      Math.floor(intensity * HEATMAP_LEVELS),
+    );
+    const top = paddingTop + r * HEATMAP_ROW_PX;
+    paths[level].addRect({
+      x: x0,
+      y: top,
+      width: x1 - x0,
+      height: Math.min(HEATMAP_ROW_PX, bottom - top),
+    });
+  }
+}
+
+/**
+ * Build the heatmap cells for the visible window into `paths` (one per
+ * level, faintest first). Intensity is size over `maxSize` on a square-root
+ * curve, so a few walls don't wash out the rest of the book. Snapshots
+ * narrower than a pixel merge into one column holding each row's largest
+ * size among them. The largest bucket seen this frame goes to `out.max`
+ * for the caller to smooth.
+ *
+ * All paths should be rewound before calling this function.
+ */
+export function buildHeatmapPaths(
+  paths: SkPath[],
+  scratch: HeatmapScratch,
+  heatmap: ResolvedHeatmap,
+  liveTime: number,
+  leftEdge: number,
+  rightEdge: number,
+  paddingLeft: number,
+  paddingTop: number,
+  chartW: number,
+  chartH: number,
+  rangeMin: number,
+  rangeSpan: number,
+  logScale: boolean,
+  maxSize: number,
+  out: { max: number },
+): void {
+  "worklet";
+  out.max = 0;
+  const span = rightEdge - leftEdge;
+  const n = heatmap.times.length;
+  if (n === 0 || span <= 0 || chartW <= 0 || chartH <= 0) return;
+
+  const rowCount = Math.ceil(chartH / HEATMAP_ROW_PX);
+  if (scratch.rows.length < rowCount) {
+    scratch.rows = new Float64Array(rowCount * 2);
+    scratch.merged = new Float64Array(rowCount * 2);
+  }
+  const rows = scratch.rows;
+  const merged = scratch.merged;
+  const bottom = paddingTop + chartH;
+  const toX = (t: number): number => {
+    "worklet";
+    return paddingLeft + ((t - leftEdge) / span) * chartW;
+  };
+
+  // Last column starting at or before the left edge; it still covers it
+  let lo = 0;
+  let hi = n - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (heatmap.times[mid] <= leftEdge) lo = mid;
+    else hi = mid - 1;
+  }
+
+  const rowAt = (k: number): number => {
+    "worklet";
+    const y = valueToY(
+      heatmap.prices[k],
+      rangeMin,
+      rangeSpan,
+      paddingTop,
+      chartH,
+      logScale,
+    );
+    return y < paddingTop || y >= bottom
+      ? -1
+      : Math.floor((y - paddingTop) / HEATMAP_ROW_PX);
+  };
+
+  rows.fill(0, 0, rowCount);
+  merged.fill(0, 0, rowCount);
+  let x0 = NaN; // left edge of the column being merged
+  for (let i = lo; i < n; i++) {
+    const t0 = heatmap.times[i];
+    if (t0 >= rightEdge) break;
+    const t1 = i + 1 < n ? heatmap.times[i + 1] : Math.max(liveTime, t0);
+    if (Number.isNaN(x0)) x0 = Math.max(toX(t0), paddingLeft);
+    const x1 = Math.min(toX(t1), paddingLeft + chartW);
+
+    // Sum this snapshot's rows, then fold them into the column's maxima
+    // (only the rows its levels touched, so merging stays cheap)
+    const kEnd = heatmap.offsets[i + 1];
+    for (let k = heatmap.offsets[i]; k < kEnd; k++) {
+      const r = rowAt(k);
+      if (r >= 0) rows[r] += heatmap.sizes[k];
+    }
+    for (let k = heatmap.offsets[i]; k < kEnd; k++) {
+      const r = rowAt(k);
+      if (r < 0 || rows[r] <= 0) continue;
+      if (rows[r] > merged[r]) merged[r] = rows[r];
+      rows[r] = 0;
+    }
+
+    // Keep merging until the column reaches a pixel (the last one drawn
+    // goes out at whatever width it has)
+    const lastColumn = i + 1 >= n || heatmap.times[i + 1] >= rightEdge;
+    if (x1 - x0 < 1 && !lastColumn) continue;
+    if (x1 - x0 >= 0.5) {
+      addHeatmapColumn(
+        paths,
+        merged,
+        rowCount,
+        x0,
+        x1,
+        paddingTop,
+        bottom,
+        maxSize,
+        out,
+      );
+    }
+    merged.fill(0, 0, rowCount);
+    x0 = NaN;
+  }
+}
@@ -0,0 +1,427 @@
+import type { SkPath } from "@shopify/react-native-skia";
+import type { CandlePoint, Indicator, IndicatorType } from "../types";
+import {
+  computeBollinger,
+  computeEma,
+  computeSma,
+  computeVwap,
+  indicatorValueAtTime,
+} from "../math/indicators";
+import { valueToY } from "../math/scale";
+import { formatAxisValueWorklet } from "./grid";
+
+export const MAX_INDICATORS = 4;
+
+const DEFAULT_PERIOD = 20;
+const DEFAULT_STD_DEV = 2;
+const MIN_CAPACITY = 64;
+
+export interface IndicatorSpec {
+  type: IndicatorType;
+  period: number;
+  stdDev: number;
+  label: string;
+}
+
+/**
+ * Source points and computed series for all indicator slots. Buffers grow
+ * on demand and are reused across frames. `version` bumps once per load
+ * that changed the source, with `changedFrom` its first changed point, so
+ * values (and the oscillator pane) only recompute then, and only the tail
+ * when they are one version behind.
+ */
+export interface IndicatorState {
+  // Packed [t, close] the indicators are computed from
+  src: Float64Array;
+  // Packed [t, typical price] for VWAP (same as src in line mode)
+  typical: Float64Array;
+  volumes: Float64Array;
+  hasVolume: boolean;
+  count: number;
+  // Buffer or candle array last loaded, and how many of its candles were
+  // committed; an unchanged head is skipped on the next load
+  source: Float64Array | CandlePoint[] | null;
+  committed: number;
+  changedFrom: number;
+  // Per slot: main line (Bollinger: middle band), upper and lower bands
+  values: Float64Array[];
+  upper: Float64Array[];
+  lower: Float64Array[];
+  // Running VWAP weight per point
+  weightTotals: Float64Array;
+  specs: IndicatorSpec[] | null;
+  version: number;
+  // Source version the slot values were computed from
+  valuesVersion: number;
+}
+
+export function resolveIndicatorSpecs(
+  indicators: Indicator[] | undefined,
+): IndicatorSpec[] {
+  if (!indicators) return [];
+  return indicators.slice(0, MAX_INDICATORS).map((ind) => {
+    const period = Math.max(1, Math.round(ind.period ?? DEFAULT_PERIOD));
+    const defaultLabel =
+      ind.type === "vwap"
+        ? "VWAP"
+        : `${ind.type === "bollinger" ? "BB" : ind.type.toUpperCase()} ${period}`;
+    return {
+      type: ind.type,
+      period,
+      stdDev: ind.stdDev ?? DEFAULT_STD_DEV,
+      label: ind.label ?? defaultLabel,
+    };
+  });
+}
+
+export function createIndicatorState(): IndicatorState {
+  const make = () =>
+    Array.from({ length: MAX_INDICATORS }, () => new Float64Array(0));
+  return {
+    src: new Float64Array(0),
+    typical: new Float64Array(0),
+    volumes: new Float64Array(0),
+    hasVolume: false,
+    count: 0,
+    source: null,
+    committed: 0,
+    changedFrom: 0,
+    values: make(),
+    upper: make(),
+    lower: make(),
+    weightTotals: new Float64Array(0),
+    specs: null,
+    version: 0,
+    valuesVersion: -1,
+  };
+}
+
+/** Grow the buffers; returns true when the series were reallocated. */
+function ensureCapacity(state: IndicatorState, count: number): boolean {
+  "worklet";
+  if (state.volumes.length >= count) return false;
+  const cap = Math.max(MIN_CAPACITY, count * 2);
+  const src = new Float64Array(cap * 2);
+  src.set(state.src);
+  state.src = src;
+  const typical = new Float64Array(cap * 2);
+  typical.set(state.typical);
+  state.typical = typical;
+  const volumes = new Float64Array(cap);
+  volumes.set(state.volumes);
+  state.volumes = volumes;
+  for (let s = 0; s < MAX_INDICATORS; s++) {
+    state.values[s] = new Float64Array(cap);
+    state.upper[s] = new Float64Array(cap);
+    state.lower[s] = new Float64Array(cap);
+  }
+  state.weightTotals = new Float64Array(cap);
+  return true;
+}
+
+function setPoint(
+  state: IndicatorState,
+  i: number,
+  t: number,
+  close: number,
+  typical: number,
+  volume: number,
+): boolean {
+  "worklet";
+  if (
+    state.src[i * 2] === t &&
+    state.src[i * 2 + 1] === close &&
+    state.typical[i * 2 + 1] === typical &&
+    state.volumes[i] === volume
+  ) {
+    return false;
+  }
+  state.src[i * 2] = t;
+  state.src[i * 2 + 1] = close;
+  state.typical[i * 2] = t;
+  state.typical[i * 2 + 1] = typical;
+  state.volumes[i] = volume;
+  return true;
+}
+
+/** Record a load: bump the version if anything from `changedFrom` on moved. */
+function commitLoad(
+  state: IndicatorState,
+  count: number,
+  hasVolume: boolean,
+  changedFrom: number,
+): void {
+  "worklet";
+  let from = changedFrom;
+  if (state.hasVolume !== hasVolume) from = 0;
+  else if (state.count !== count) from = Math.min(from, state.count, count);
+  state.count = count;
+  state.hasVolume = hasVolume;
+  if (from === Infinity) return;
+  state.changedFrom = from;
+  state.version++;
+}
+
+/**
+ * Load line-mode source points `first..count - 1`; only bumps the version
+ * on change. A buffer that only grew (a stream append) reloads from its
+ * previous last point.
+ */
+export function loadIndicatorPoints(
+  state: IndicatorState,
+  pts: Float64Array,
+  first: number,
+  count: number,
+): void {
+  "worklet";
+  const n = Math.max(0, count - first);
+  const prev = state.count;
+  let start = 0;
+  if (
+    pts === state.source &&
+    prev > 0 &&
+    n >= prev &&
+    pts[first * 2] === state.src[0] &&
+    pts[(first + prev - 1) * 2] === state.src[(prev - 1) * 2]
+  ) {
+    start = prev - 1;
+  }
+  let changedFrom = ensureCapacity(state, n) ? 0 : Infinity;
+  state.source = pts;
+  for (let i = start; i < n; i++) {
+    const t = pts[(first + i) * 2];
+    const v = pts[(first + i) * 2 + 1];
+    if (setPoint(state, i, t, v, v, 1) && i < changedFrom) changedFrom = i;
+  }
+  commitLoad(state, n, false, changedFrom);
+}
+
+/**
+ * Load candle-mode source points: closes at candle centers, with typical
+ * price and volume for VWAP. The live candle, if any, is appended last.
+ * Candles already committed from the same array are skipped, so a frame
+ * usually only reloads the live candle.
+ */
+export function loadIndicatorCandles(
+  state: IndicatorState,
+  candles: CandlePoint[],
+  live: CandlePoint | null,
+  candleWidthSecs: number,
+): void {
+  "worklet";
+  const liveCandle =
+    live &&
+    (candles.length === 0 || live.time > candles[candles.length - 1].time)
+      ? live
+      : null;
+  const count = candles.length + (liveCandle ? 1 : 0);
+  // Same array, same width: only candles past the committed ones are new
+  const start =
+    candles === state.source &&
+    candles.length >= state.committed &&
+    state.committed > 0 &&
+    state.src[0] === candles[0].time + candleWidthSecs / 2
+      ? state.committed
+      : 0;
+  let changedFrom = ensureCapacity(state, count) ? 0 : Infinity;
+  let hasVolume = start > 0 && state.hasVolume;
+  for (let i = start; i < count; i++) {
+    const c = liveCandle && i === candles.length ? liveCandle : candles[i];
+    if (c.volume !== undefined) hasVolume = true;
+    const changed = setPoint(
+      state,
+      i,
+      c.time + candleWidthSecs / 2,
+      c.close,
+      (c.high + c.low + c.close) / 3,
+      c.volume ?? 0,
+    );
+    if (changed && i < changedFrom) changedFrom = i;
+  }
+  state.source = candles;
+  state.committed = candles.length;
+  commitLoad(state, count, hasVolume, changedFrom);
+}
+
+/**
+ * Recompute the slots' series when the source or specs changed: from the
+ * first changed point after a single load, else in full.
+ */
+export function updateIndicatorValues(
+  state: IndicatorState,
+  specs: IndicatorSpec[],
+): void {
+  "worklet";
+  let from = 0;
+  if (state.specs === specs) {
+    if (state.valuesVersion === state.version) return;
+    if (state.valuesVersion === state.version - 1) from = state.changedFrom;
+  }
+  state.valuesVersion = state.version;
+  state.specs = specs;
+  const count = state.count;
+  const n = Math.min(specs.length, MAX_INDICATORS);
+  for (let s = 0; s < n; s++) {
+    const spec = specs[s];
+    const out = state.values[s];
+    if (spec.type === "sma") {
+      computeSma(state.src, count, spec.period, out, from);
+    } else if (spec.type === "ema") {
+      computeEma(state.src, count, spec.period, out, from);
+    } else if (spec.type === "bollinger") {
+      computeBollinger(
+        state.src,
+        count,
+        spec.period,
+        spec.stdDev,
+        out,
+        state.upper[s],
+        state.lower[s],
+        from,
+      );
+    } else {
+      computeVwap(
+        state.typical,
+        state.hasVolume ? state.volumes : null,
+        count,
+        out,
+        state.weightTotals,
+        from,
+      );
+    }
+  }
+}
+
+function addSeries(
+  path: SkPath,
+  src: Float64Array,
+  values: Float64Array,
+  first: number,
+  last: number,
+  toX: (t: number) => number,
+  toY: (v: number) => number,
+): void {
+  "worklet";
+  let penDown = false;
+  for (let i = first; i <= last; i++) {
+    const v = values[i];
+    if (!Number.isFinite(v)) {
+      penDown = false;
+      continue;
+    }
+    const x = toX(src[i * 2]);
+    const y = toY(v);
+    if (penDown) {
+      path.lineTo(x, y);
+    } else {
+      path.moveTo(x, y);
+      penDown = true;
+    }
+  }
+}
+
+/**
+ * Build one slot's polyline over [leftEdge, rightEdge] (one point of
+ * overscan on each side). Bollinger slots also get both bands in `bandPath`.
+ *
+ * Paths should be rewound before calling this function.
+ */
+export function buildIndicatorPaths(
+  state: IndicatorState,
+  slot: number,
+  path: SkPath,
+  bandPath: SkPath,
+  leftEdge: number,
+  rightEdge: number,
+  paddingLeft: number,
+  paddingTop: number,
+  chartW: number,
+  chartH: number,
+  rangeMin: number,
+  rangeSpan: number,
+  logScale: boolean,
+): void {
+  "worklet";
+  const specs = state.specs;
+  const count = state.count;
+  const span = rightEdge - leftEdge;
+  if (!specs || slot >= specs.length || count === 0 || span <= 0) return;
+
+  const src = state.src;
+  let lo = 0;
+  let hi = count - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (src[mid * 2] < leftEdge) lo = mid + 1;
+    else hi = mid;
+  }
+  const first = Math.max(0, lo - 1);
+  let last = first;
+  while (last < count - 1 && src[last * 2] <= rightEdge) last++;
+
+  const toX = (t: number): number =>
+    paddingLeft + ((t - leftEdge) / span) * chartW;
+  const safeSpan = Math.max(rangeSpan, 1e-6);
+  const toY = (v: number): number =>
+    valueToY(v, rangeMin, safeSpan, paddingTop, chartH, logScale);
+
+  addSeries(path, src, state.values[slot], first, last, toX, toY);
+  if (specs[slot].type === "bollinger") {
+    addSeries(bandPath, src, state.upper[slot], first, last, toX, toY);
+    addSeries(bandPath, src, state.lower[slot], first, last, toX, toY);
+  }
+}
+
+/**
+ * Crosshair readout per slot at time `t`, e.g. "SMA 20 101.25" or
+ * "BB 20 99.10 / 103.40" (lower / upper). Returns true if any text changed.
+ */
+export function updateIndicatorCrosshair(
+  state: IndicatorState,
+  t: number,
+  formatValueWorklet: ((v: number) => string) | undefined,
+  out: string[],
+): boolean {
+  "worklet";
+  const specs = state.specs;
+  const n = specs ? Math.min(specs.length, MAX_INDICATORS) : 0;
+  const format = (v: number): string =>
+    formatValueWorklet ? formatValueWorklet(v) : formatAxisValueWorklet(v);
+  let changed = false;
+  for (let s = 0; s < MAX_INDICATORS; s++) {
+    let text = "";
+    if (specs && s < n && state.count > 0) {
+      const spec = specs[s];
+      if (spec.type === "bollinger") {
+        const lower = indicatorValueAtTime(
+          state.src,
+          state.lower[s],
+          state.count,
+          t,
+        );
+        const upper = indicatorValueAtTime(
+          state.src,
+          state.upper[s],
+          state.count,
+          t,
+        );
+        if (Number.isFinite(lower) && Number.isFinite(upper)) {
+          text = `${spec.label} ${format(lower)} / ${format(upper)}`;
+        }
+      } else {
+        const v = indicatorValueAtTime(
+          state.src,
+          state.values[s],
+          state.count,
+          t,
+        );
+        if (Number.isFinite(v)) text = `${spec.label} ${format(v)}`;
+      }
+    }
+    if (out[s] !== text) {
+      out[s] = text;
+      changed = true;
+    }
+  }
+  return changed;
+}
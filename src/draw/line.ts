@@ -1,4 +1,5 @@
 import type { SkPath } from "@shopify/react-native-skia";
+import { valueToY } from "../math/scale";
 import { loadingY } from "./loadingShape";
 
 function ptT(buf: Float64Array, i: number): number {
@@ -63,6 +64,7 @@ export function buildSmoothPathFromVisiblePoints(
   chartHeight: number,
   rangeMin: number,
   rangeSpan: number,
+  logScale: boolean,
   paddingLeft: number,
   paddingTop: number,
   liveX: number,
@@ -133,10 +135,14 @@ export function buildSmoothPathFromVisiblePoints(
     if (logicalIndex === visibleCount - 1) {
       return morphY(liveY, x);
     }
-    const realY =
-      paddingTop +
-      (1 - (ptV(pointsBuf, idx) - rangeMin) / Math.max(rangeSpan, EPS)) *
-        chartHeight;
+    const realY = valueToY(
+      ptV(pointsBuf, idx),
+      rangeMin,
+      rangeSpan,
+      paddingTop,
+      chartHeight,
+      logScale,
+    );
     return morphY(realY, x);
   };
 
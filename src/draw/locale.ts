@@ -0,0 +1,205 @@
+import type { LivelineLocale } from "../types";
+
+/**
+ * Locale data for the built-in worklet formatters. Resolved once on the JS
+ * thread (where `Intl` is available) into plain strings the UI thread can use.
+ */
+export interface ResolvedLocale {
+  monthNames: string[]; // 12 short names, January first
+  weekdayNames: string[]; // 7 short names, Sunday first
+  hourCycle: "h12" | "h23";
+  am: string;
+  pm: string;
+  decimalSeparator: string;
+  groupSeparator: string;
+  // "9 Mar" rather than "Mar 9"
+  dayFirst: boolean;
+  // Composite labels (date + time) are laid out right-to-left
+  rtl: boolean;
+}
+
+const EN_MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+const EN_WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const RTL_LANGUAGES = ["ar", "he", "fa", "ur", "yi", "ps", "ckb", "dv", "sd"];
+
+function intlParts(
+  tag: string | undefined,
+  options: Intl.DateTimeFormatOptions,
+  ms: number,
+): Intl.DateTimeFormatPart[] {
+  return new Intl.DateTimeFormat(tag, { ...options, timeZone: "UTC" })
+    .formatToParts(new Date(ms))
+    .filter((part) => part.type !== "literal");
+}
+
+function partValue(
+  parts: Intl.DateTimeFormatPart[],
+  type: Intl.DateTimeFormatPartTypes,
+): string | undefined {
+  return parts.find((part) => part.type === type)?.value;
+}
+
+function fromIntl(tag: string | undefined): ResolvedLocale {
+  // Whole formatted strings, not parts: CJK month parts drop the "月"
+  const monthFormat = new Intl.DateTimeFormat(tag, {
+    month: "short",
+    timeZone: "UTC",
+  });
+  const monthNames = EN_MONTHS.map((_, m) =>
+    monthFormat.format(new Date(Date.UTC(2021, m, 15))),
+  );
+  const weekdayFormat = new Intl.DateTimeFormat(tag, {
+    weekday: "short",
+    timeZone: "UTC",
+  });
+  // 3 Jan 2021 was a Sunday
+  const weekdayNames = EN_WEEKDAYS.map((_, d) =>
+    weekdayFormat.format(new Date(Date.UTC(2021, 0, 3 + d))),
+  );
+  const hour12 =
+    new Intl.DateTimeFormat(tag, { hour: "numeric" }).resolvedOptions()
+      .hour12 ?? false;
+  const am =
+    partValue(
+      intlParts(
+        tag,
+        { hour: "numeric", hour12: true },
+        Date.UTC(2021, 0, 1, 9),
+      ),
+      "dayPeriod",
+    ) ?? "AM";
+  const pm =
+    partValue(
+      intlParts(
+        tag,
+        { hour: "numeric", hour12: true },
+        Date.UTC(2021, 0, 1, 21),
+      ),
+      "dayPeriod",
+    ) ?? "PM";
+  const numberParts = new Intl.NumberFormat(tag).formatToParts(12345.6);
+  const dateParts = intlParts(
+    tag,
+    { month: "short", day: "numeric" },
+    Date.UTC(2021, 2, 9),
+  );
+  const dayIdx = dateParts.findIndex((part) => part.type === "day");
+  const monthIdx = dateParts.findIndex((part) => part.type === "month");
+  const language = new Intl.DateTimeFormat(tag)
+    .resolvedOptions()
+    .locale.split("-")[0]
+    .toLowerCase();
+  return {
+    monthNames,
+    weekdayNames,
+    hourCycle: hour12 ? "h12" : "h23",
+    am,
+    pm,
+    decimalSeparator:
+      numberParts.find((part) => part.type === "decimal")?.value ?? ".",
+    groupSeparator:
+      numberParts.find((part) => part.type === "group")?.value ?? ",",
+    dayFirst: dayIdx >= 0 && monthIdx >= 0 && dayIdx < monthIdx,
+    rtl: RTL_LANGUAGES.includes(language),
+  };
+}
+
+const EN_LOCALE: ResolvedLocale = {
+  monthNames: EN_MONTHS,
+  weekdayNames: EN_WEEKDAYS,
+  hourCycle: "h12",
+  am: "AM",
+  pm: "PM",
+  decimalSeparator: ".",
+  groupSeparator: ",",
+  dayFirst: false,
+  rtl: false,
+};
+
+/**
+ * Resolve the `locale` prop: a BCP 47 tag, or explicit overrides on top of
+ * a tag's defaults. Returns null when unset, which keeps the built-in
+ * English formats.
+ */
+export function resolveLocale(
+  locale: string | LivelineLocale | undefined,
+): ResolvedLocale | null {
+  if (locale === undefined) return null;
+  const options: LivelineLocale =
+    typeof locale === "string" ? { locale } : locale;
+  let base = EN_LOCALE;
+  try {
+    base = fromIntl(options.locale);
+  } catch {
+    // No Intl (or an unknown tag): English defaults + explicit overrides
+  }
+  return {
+    monthNames:
+      options.monthNames?.length === 12 ? options.monthNames : base.monthNames,
+    weekdayNames:
+      options.weekdayNames?.length === 7
+        ? options.weekdayNames
+        : base.weekdayNames,
+    hourCycle: options.hourCycle ?? base.hourCycle,
+    am: base.am,
+    pm: base.pm,
+    decimalSeparator: options.decimalSeparator ?? base.decimalSeparator,
+    groupSeparator: options.groupSeparator ?? base.groupSeparator,
+    dayFirst: options.dayFirst ?? base.dayFirst,
+    rtl: options.rtl ?? base.rtl,
+  };
+}
+
+/** Join two label parts in reading order ("date time", or reversed in RTL). */
+export function joinLocaleParts(
+  first: string,
+  second: string,
+  separator: string,
+  locale: ResolvedLocale | null,
+): string {
+  "worklet";
+  return locale?.rtl
+    ? `${second}${separator}${first}`
+    : `${first}${separator}${second}`;
+}
+
+/**
+ * Group and round `n` to `decimals` places with the locale's separators
+ * ("1,234.50" / "1.234,50" / "1 234,50").
+ */
+export function formatLocaleNumber(
+  n: number,
+  decimals: number,
+  locale: ResolvedLocale | null,
+): string {
+  "worklet";
+  const group = locale ? locale.groupSeparator : ",";
+  const decimal = locale ? locale.decimalSeparator : ".";
+  const fixed = (Number.isFinite(n) ? n : 0).toFixed(decimals);
+  const parts = fixed.split(".");
+  const frac = parts[1] ?? "";
+  let whole = parts[0] ?? "0";
+  const negative = whole.startsWith("-");
+  if (negative) whole = whole.slice(1);
+  let grouped = "";
+  for (let i = 0; i < whole.length; i += 1) {
+    const idxFromEnd = whole.length - i;
+    grouped += whole[i];
+    if (idxFromEnd > 1 && idxFromEnd % 3 === 1) grouped += group;
+  }
+  const sign = negative ? "-" : "";
+  return frac ? `${sign}${grouped}${decimal}${frac}` : `${sign}${grouped}`;
+}
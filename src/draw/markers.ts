@@ -0,0 +1,220 @@
+import type { SkPath } from "@shopify/react-native-skia";
+import type { CandlePoint, MarkerShape } from "../types";
+import { valueToY } from "../math/scale";
+import { interpolateAtTime } from "./crosshair";
+
+// Starting pool size. The pool is filled from the visible window, newest
+// first, and grows to the most glyphs ever in view at once, so long marker
+// lists only cost their on-screen slice
+export const INITIAL_MARKER_SLOTS = 16;
+export const MARKER_SIZE = 5;
+
+// Gap between a candle's high and the glyph sitting above it
+const CANDLE_MARKER_GAP = 8;
+// Horizontal overscan so glyphs ease out past the edges instead of popping
+const EDGE_OVERSCAN_PX = 12;
+
+export interface MarkerSlot {
+  active: number;
+  marker: number; // index into the `markers` prop; -1 when inactive
+  x: number;
+  y: number;
+}
+
+function createMarkerSlot(): MarkerSlot {
+  "worklet";
+  return { active: 0, marker: -1, x: -1000, y: -1000 };
+}
+
+export function createMarkerSlots(): MarkerSlot[] {
+  return Array.from({ length: INITIAL_MARKER_SLOTS }, createMarkerSlot);
+}
+
+/** Marker times newest first, with each one's index into `markers`. */
+export interface MarkerOrder {
+  times: number[];
+  indices: number[];
+}
+
+/** High of the candle covering `t`, or NaN when no candle does. */
+function candleHighAtTime(
+  candles: CandlePoint[],
+  live: CandlePoint | null,
+  candleWidthSecs: number,
+  t: number,
+): number {
+  "worklet";
+  if (live && t >= live.time && t < live.time + candleWidthSecs) {
+    return live.high;
+  }
+  let lo = 0;
+  let hi = candles.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const c = candles[mid];
+    if (t < c.time) hi = mid - 1;
+    else if (t >= c.time + candleWidthSecs) lo = mid + 1;
+    else return c.high;
+  }
+  return NaN;
+}
+
+function writeMarkerSlot(
+  slot: MarkerSlot,
+  active: number,
+  marker: number,
+  x: number,
+  y: number,
+): boolean {
+  "worklet";
+  if (
+    slot.active === active &&
+    slot.marker === marker &&
+    Math.abs(slot.x - x) <= 1e-4 &&
+    Math.abs(slot.y - y) <= 1e-4
+  ) {
+    return false;
+  }
+  slot.active = active;
+  slot.marker = marker;
+  slot.x = x;
+  slot.y = y;
+  return true;
+}
+
+/**
+ * Position marker glyphs for this frame. Markers inside the window (plus
+ * overscan) fill the slots newest first, adding slots when more are in
+ * view than the pool holds. Line mode anchors each glyph on
+ * the line at `interpolateAtTime(t)`; candle mode sits it above the
+ * covering candle's high, blending toward the line as `candleProg` falls
+ * to 0.
+ *
+ * Returns true if any slot changed.
+ */
+export function updateMarkerSlots(
+  slots: MarkerSlot[],
+  order: MarkerOrder,
+  pts: Float64Array,
+  count: number,
+  candles: CandlePoint[],
+  live: CandlePoint | null,
+  candleWidthSecs: number,
+  candleProg: number,
+  leftEdge: number,
+  rightEdge: number,
+  paddingLeft: number,
+  paddingTop: number,
+  chartW: number,
+  chartH: number,
+  rangeMin: number,
+  rangeSpan: number,
+  logScale: boolean,
+): boolean {
+  "worklet";
+  const span = rightEdge - leftEdge;
+  let dirty = false;
+  let next = 0;
+  for (let k = 0; k < order.times.length; k++) {
+    if (!(span > 0)) break;
+    const t = order.times[k];
+    const x = paddingLeft + ((t - leftEdge) / span) * chartW;
+    if (x > paddingLeft + chartW + EDGE_OVERSCAN_PX) continue;
+    if (x < paddingLeft - EDGE_OVERSCAN_PX) break;
+    const lineV = count > 0 ? interpolateAtTime(pts, count, t) : NaN;
+    const lineY = valueToY(
+      lineV,
+      rangeMin,
+      rangeSpan,
+      paddingTop,
+      chartH,
+      logScale,
+    );
+    let anchorY = lineY;
+    if (candleProg > 0) {
+      const high = candleHighAtTime(candles, live, candleWidthSecs, t);
+      if (Number.isFinite(high)) {
+        const candleY =
+          valueToY(high, rangeMin, rangeSpan, paddingTop, chartH, logScale) -
+          CANDLE_MARKER_GAP;
+        anchorY = Number.isFinite(lineY)
+          ? lineY + (candleY - lineY) * candleProg
+          : candleY;
+      }
+    }
+    if (!Number.isFinite(anchorY)) continue;
+    if (next === slots.length) slots.push(createMarkerSlot());
+    if (writeMarkerSlot(slots[next], 1, order.indices[k], x, anchorY)) {
+      dirty = true;
+    }
+    next++;
+  }
+  for (; next < slots.length; next++) {
+    if (writeMarkerSlot(slots[next], 0, -1, -1000, -1000)) dirty = true;
+  }
+  return dirty;
+}
+
+/** Add one glyph centered on (x, y). Path should be rewound by the caller. */
+export function addMarkerGlyph(
+  path: SkPath,
+  shape: MarkerShape,
+  x: number,
+  y: number,
+  size: number,
+): void {
+  "worklet";
+  if (shape === "square") {
+    path.addRect({
+      x: x - size,
+      y: y - size,
+      width: size * 2,
+      height: size * 2,
+    });
+  } else if (shape === "diamond") {
+    path.moveTo(x, y - size * 1.3);
+    path.lineTo(x + size * 1.3, y);
+    path.lineTo(x, y + size * 1.3);
+    path.lineTo(x - size * 1.3, y);
+    path.close();
+  } else if (shape === "triangleUp") {
+    path.moveTo(x, y - size * 1.2);
+    path.lineTo(x + size * 1.2, y + size);
+    path.lineTo(x - size * 1.2, y + size);
+    path.close();
+  } else if (shape === "triangleDown") {
+    path.moveTo(x, y + size * 1.2);
+    path.lineTo(x + size * 1.2, y - size);
+    path.lineTo(x - size * 1.2, y - size);
+    path.close();
+  } else {
+    path.addCircle(x, y, size);
+  }
+}
+
+/**
+ * `markers` index of the active glyph nearest (x, y) within `radius` px,
+ * or -1.
+ */
+export function hitTestMarkers(
+  slots: MarkerSlot[],
+  x: number,
+  y: number,
+  radius: number,
+): number {
+  "worklet";
+  let best = -1;
+  let bestDist = radius * radius;
+  for (let i = 0; i < slots.length; i++) {
+    const slot = slots[i];
+    if (slot.active === 0) continue;
+    const dx = slot.x - x;
+    const dy = slot.y - y;
+    const dist = dx * dx + dy * dy;
+    if (dist <= bestDist) {
+      bestDist = dist;
+      best = slot.marker;
+    }
+  }
+  return best;
+}
@@ -1,4 +1,4 @@
-import type { OrderbookData } from "../types";
+import type { OrderbookData, OrderbookOptions } from "../types";
 
 const RNG_MULTIPLIER = 1664525;
 const RNG_INCREMENT = 1013904223;
@@ -22,6 +22,14 @@ export interface OrderbookLabelSlot {
   alpha: number;
 }
 
+export interface ResolvedOrderbookOptions {
+  formatSize?: (size: number) => string;
+  spawnIntervalMs: number;
+  speedScale: number;
+  minSize: number;
+  maxLabels: number;
+}
+
 export interface OrderbookRuntimeState {
   spawnTimerMs: number;
   smoothSpeed: number;
@@ -46,13 +54,38 @@ function rand01(state: number): number {
   return state / RNG_MODULUS;
 }
 
-function formatSize(size: number): string {
+function defaultFormatSize(size: number): string {
   "worklet";
   if (size >= 10) return `$${Math.round(size)}`;
   if (size >= 1) return `$${size.toFixed(1)}`;
   return `$${size.toFixed(2)}`;
 }
 
+function positiveOr(value: number | undefined, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : fallback;
+}
+
+/** Fill in `orderbookOptions` defaults (JS thread). */
+export function resolveOrderbookOptions(
+  options: OrderbookOptions | undefined,
+): ResolvedOrderbookOptions {
+  return {
+    formatSize: options?.formatSize,
+    spawnIntervalMs: SPAWN_INTERVAL_MS / positiveOr(options?.density, 1),
+    speedScale: positiveOr(options?.speed, 1),
+    minSize: positiveOr(options?.minSize, 0),
+    maxLabels: Math.round(
+      clamp(
+        positiveOr(options?.maxLabels, MAX_ORDERBOOK_LABELS),
+        1,
+        MAX_ORDERBOOK_LABELS,
+      ),
+    ),
+  };
+}
+
 export function createOrderbookState(): OrderbookRuntimeState {
   return {
     spawnTimerMs: 0,
@@ -81,14 +114,27 @@ export function createOrderbookLabelSlots(
 
 function findReusableSlot(
   labels: OrderbookLabelSlot[],
+  maxLabels: number,
 ): OrderbookLabelSlot | null {
   "worklet";
-  for (let i = 0; i < labels.length; i += 1) {
+  const limit = Math.min(labels.length, maxLabels);
+  for (let i = 0; i < limit; i += 1) {
     if (labels[i].active === 0) return labels[i];
   }
   return null;
 }
 
+/** Size of a level, or 0 when it is invalid or under `minSize`. */
+function levelSize(
+  level: [price: number, size: number] | undefined,
+  minSize: number,
+): number {
+  "worklet";
+  const size = level?.[1] ?? 0;
+  if (!Number.isFinite(size) || size <= 0 || size < minSize) return 0;
+  return size;
+}
+
 export function updateOrderbookLabels(
   labels: OrderbookLabelSlot[],
   state: OrderbookRuntimeState,
@@ -98,6 +144,7 @@ export function updateOrderbookLabels(
   chartHeight: number,
   dtMs: number,
   swingMagnitude: number,
+  options: ResolvedOrderbookOptions,
 ): void {
   "worklet";
 
@@ -109,15 +156,15 @@ export function updateOrderbookLabels(
   let askTotal = 0;
 
   for (let i = 0; i < orderbook.bids.length; i += 1) {
-    const size = orderbook.bids[i]?.[1] ?? 0;
-    if (!Number.isFinite(size) || size <= 0) continue;
+    const size = levelSize(orderbook.bids[i], options.minSize);
+    if (size <= 0) continue;
     bidTotal += size;
     if (size > maxSize) maxSize = size;
   }
 
   for (let i = 0; i < orderbook.asks.length; i += 1) {
-    const size = orderbook.asks[i]?.[1] ?? 0;
-    if (!Number.isFinite(size) || size <= 0) continue;
+    const size = levelSize(orderbook.asks[i], options.minSize);
+    if (size <= 0) continue;
     askTotal += size;
     if (size > maxSize) maxSize = size;
   }
@@ -152,16 +199,17 @@ export function updateOrderbookLabels(
   state.churnRate += (churnSignal - state.churnRate) * churnLerp;
 
   const activity = Math.max(clamp(swingMagnitude * 5, 0, 1), state.churnRate);
-  const targetSpeed = BASE_SPEED + activity * (MAX_SPEED - BASE_SPEED);
+  const targetSpeed =
+    (BASE_SPEED + activity * (MAX_SPEED - BASE_SPEED)) * options.speedScale;
   const speedLerp = 1 - Math.pow(0.95, dtMs / 16.67);
   state.smoothSpeed += (targetSpeed - state.smoothSpeed) * speedLerp;
 
   state.spawnTimerMs += dtMs;
 
-  while (state.spawnTimerMs >= SPAWN_INTERVAL_MS) {
-    state.spawnTimerMs -= SPAWN_INTERVAL_MS;
+  while (state.spawnTimerMs >= options.spawnIntervalMs) {
+    state.spawnTimerMs -= options.spawnIntervalMs;
 
-    const slot = findReusableSlot(labels);
+    const slot = findReusableSlot(labels, options.maxLabels);
     if (!slot) break;
 
     let tooClose = false;
@@ -186,7 +234,7 @@ export function updateOrderbookLabels(
     let pickedGreen = 1;
 
     for (let i = 0; i < bidCount; i += 1) {
-      const size = orderbook.bids[i]?.[1] ?? 0;
+      const size = levelSize(orderbook.bids[i], options.minSize);
       if (size <= 0) continue;
       pick -= size;
       if (pick <= 0) {
@@ -198,7 +246,7 @@ export function updateOrderbookLabels(
 
     if (pickedSize <= 0) {
       for (let i = 0; i < askCount; i += 1) {
-        const size = orderbook.asks[i]?.[1] ?? 0;
+        const size = levelSize(orderbook.asks[i], options.minSize);
         if (size <= 0) continue;
         pick -= size;
         if (pick <= 0) {
@@ -212,7 +260,7 @@ export function updateOrderbookLabels(
     if (pickedSize <= 0) {
       // fallback: first valid level
       for (let i = 0; i < bidCount; i += 1) {
-        const size = orderbook.bids[i]?.[1] ?? 0;
+        const size = levelSize(orderbook.bids[i], options.minSize);
         if (size > 0) {
           pickedSize = size;
           pickedGreen = 1;
@@ -221,7 +269,7 @@ export function updateOrderbookLabels(
       }
       if (pickedSize <= 0) {
         for (let i = 0; i < askCount; i += 1) {
-          const size = orderbook.asks[i]?.[1] ?? 0;
+          const size = levelSize(orderbook.asks[i], options.minSize);
           if (size > 0) {
             pickedSize = size;
             pickedGreen = 0;
@@ -234,9 +282,12 @@ export function updateOrderbookLabels(
     if (pickedSize <= 0) continue;
 
     const sizeRatio = clamp(pickedSize / Math.max(1e-6, maxSize), 0, 1);
+    const sizeText = options.formatSize
+      ? options.formatSize(pickedSize)
+      : defaultFormatSize(pickedSize);
     slot.active = 1;
     slot.y = bottomY;
-    slot.text = `+ ${formatSize(pickedSize)}`;
+    slot.text = `+ ${sizeText}`;
     slot.green = pickedGreen;
     slot.life = LABEL_LIFETIME;
     slot.maxLife = LABEL_LIFETIME;
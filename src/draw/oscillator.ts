@@ -0,0 +1,351 @@
+import type { SkPath } from "@shopify/react-native-skia";
+import type { Oscillator, OscillatorType } from "../types";
+import {
+  computeMacd,
+  computeRsi,
+  indicatorValueAtTime,
+} from "../math/indicators";
+import type { IndicatorState } from "./indicators";
+
+export const MAX_OSCILLATOR_GRID_LABELS = 6;
+
+const RSI_LOWER = 30;
+const RSI_UPPER = 70;
+const RANGE_MARGIN = 0.1;
+const HIST_WIDTH_RATIO = 0.6;
+
+export interface OscillatorSpec {
+  type: OscillatorType;
+  period: number;
+  fast: number;
+  slow: number;
+  signal: number;
+  label: string;
+}
+
+/**
+ * Oscillator series computed from the shared indicator source. `main` is
+ * RSI or the MACD line; `signal` and `hist` are MACD only.
+ */
+export interface OscillatorState {
+  main: Float64Array;
+  signal: Float64Array;
+  hist: Float64Array;
+  // Running state per point: RSI average gain / loss, MACD fast / slow EMA
+  runningA: Float64Array;
+  runningB: Float64Array;
+  spec: OscillatorSpec | null;
+  sourceVersion: number;
+  // Target value range of the visible slice, written by visibleRange
+  targetMin: number;
+  targetMax: number;
+}
+
+export interface OscillatorPaths {
+  line: SkPath;
+  signal: SkPath;
+  histUp: SkPath;
+  histDown: SkPath;
+  guides: SkPath; // RSI 30/70 lines, MACD zero line
+  band: SkPath; // RSI 30–70 fill
+}
+
+export function resolveOscillatorSpec(
+  oscillator: Oscillator | undefined,
+): OscillatorSpec | null {
+  if (!oscillator) return null;
+  const int = (v: number | undefined, fallback: number) =>
+    Math.max(1, Math.round(v ?? fallback));
+  const period = int(oscillator.period, 14);
+  const fast = int(oscillator.fast, 12);
+  const slow = int(oscillator.slow, 26);
+  const signal = int(oscillator.signal, 9);
+  return {
+    type: oscillator.type,
+    period,
+    fast,
+    slow,
+    signal,
+    label:
+      oscillator.type === "rsi"
+        ? `RSI ${period}`
+        : `MACD ${fast} ${slow} ${signal}`,
+  };
+}
+
+export function createOscillatorState(): OscillatorState {
+  return {
+    main: new Float64Array(0),
+    signal: new Float64Array(0),
+    hist: new Float64Array(0),
+    runningA: new Float64Array(0),
+    runningB: new Float64Array(0),
+    spec: null,
+    sourceVersion: -1,
+    targetMin: 0,
+    targetMax: 100,
+  };
+}
+
+/**
+ * Recompute the series when the source or the spec changed: from the
+ * source's first changed point after a single load, else in full.
+ */
+export function updateOscillatorValues(
+  state: OscillatorState,
+  source: IndicatorState,
+  spec: OscillatorSpec,
+): void {
+  "worklet";
+  let from = 0;
+  if (state.spec === spec) {
+    if (state.sourceVersion === source.version) return;
+    if (state.sourceVersion === source.version - 1) from = source.changedFrom;
+  }
+  state.sourceVersion = source.version;
+  state.spec = spec;
+  const count = source.count;
+  if (state.main.length < count) {
+    const cap = count * 2;
+    state.main = new Float64Array(cap);
+    state.signal = new Float64Array(cap);
+    state.hist = new Float64Array(cap);
+    state.runningA = new Float64Array(cap);
+    state.runningB = new Float64Array(cap);
+    from = 0;
+  }
+  if (spec.type === "rsi") {
+    computeRsi(
+      source.src,
+      count,
+      spec.period,
+      state.main,
+      state.runningA,
+      state.runningB,
+      from,
+    );
+  } else {
+    computeMacd(
+      source.src,
+      count,
+      spec.fast,
+      spec.slow,
+      spec.signal,
+      state.main,
+      state.signal,
+      state.hist,
+      state.runningA,
+      state.runningB,
+      from,
+    );
+  }
+}
+
+function visibleSlice(
+  src: Float64Array,
+  count: number,
+  leftEdge: number,
+  rightEdge: number,
+): { first: number; last: number } {
+  "worklet";
+  let lo = 0;
+  let hi = count - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (src[mid * 2] < leftEdge) lo = mid + 1;
+    else hi = mid;
+  }
+  const first = Math.max(0, lo - 1);
+  let last = first;
+  while (last < count - 1 && src[last * 2] <= rightEdge) last++;
+  return { first, last };
+}
+
+/**
+ * Write the target Y range into `state.targetMin/Max`: fixed 0–100 for RSI,
+ * the visible MACD/signal/histogram extent (always including zero) for MACD.
+ */
+export function updateOscillatorTargetRange(
+  state: OscillatorState,
+  source: IndicatorState,
+  leftEdge: number,
+  rightEdge: number,
+): void {
+  "worklet";
+  const spec = state.spec;
+  if (!spec || spec.type === "rsi" || source.count === 0) {
+    state.targetMin = 0;
+    state.targetMax = 100;
+    return;
+  }
+  const { first, last } = visibleSlice(
+    source.src,
+    source.count,
+    leftEdge,
+    rightEdge,
+  );
+  let min = 0;
+  let max = 0;
+  for (let i = first; i <= last; i++) {
+    const a = state.main[i];
+    const b = state.signal[i];
+    const c = state.hist[i];
+    if (Number.isFinite(a)) {
+      if (a < min) min = a;
+      if (a > max) max = a;
+    }
+    if (Number.isFinite(b)) {
+      if (b < min) min = b;
+      if (b > max) max = b;
+    }
+    if (Number.isFinite(c)) {
+      if (c < min) min = c;
+      if (c > max) max = c;
+    }
+  }
+  const span = max - min;
+  if (span <= 0) {
+    state.targetMin = -1;
+    state.targetMax = 1;
+    return;
+  }
+  state.targetMin = min - span * RANGE_MARGIN;
+  state.targetMax = max + span * RANGE_MARGIN;
+}
+
+function addLine(
+  path: SkPath,
+  src: Float64Array,
+  values: Float64Array,
+  first: number,
+  last: number,
+  toX: (t: number) => number,
+  toY: (v: number) => number,
+): void {
+  "worklet";
+  let penDown = false;
+  for (let i = first; i <= last; i++) {
+    const v = values[i];
+    if (!Number.isFinite(v)) {
+      penDown = false;
+      continue;
+    }
+    if (penDown) {
+      path.lineTo(toX(src[i * 2]), toY(v));
+    } else {
+      path.moveTo(toX(src[i * 2]), toY(v));
+      penDown = true;
+    }
+  }
+}
+
+/**
+ * Build the oscillator pane paths over [leftEdge, rightEdge] in the pane
+ * rect (paneTop, paneH). Shares the main plot's time mapping so pan, pinch
+ * and the crosshair line stay aligned across panes.
+ *
+ * All paths should be rewound before calling this function.
+ */
+export function buildOscillatorPaths(
+  paths: OscillatorPaths,
+  state: OscillatorState,
+  source: IndicatorState,
+  leftEdge: number,
+  rightEdge: number,
+  paddingLeft: number,
+  paneTop: number,
+  chartW: number,
+  paneH: number,
+  rangeMin: number,
+  rangeSpan: number,
+): void {
+  "worklet";
+  const spec = state.spec;
+  const span = rightEdge - leftEdge;
+  if (!spec || span <= 0 || paneH <= 0) return;
+
+  const safeSpan = Math.max(rangeSpan, 1e-9);
+  const toX = (t: number): number =>
+    paddingLeft + ((t - leftEdge) / span) * chartW;
+  const toY = (v: number): number =>
+    paneTop + (1 - (v - rangeMin) / safeSpan) * paneH;
+  const right = paddingLeft + chartW;
+
+  if (spec.type === "rsi") {
+    const upperY = toY(RSI_UPPER);
+    const lowerY = toY(RSI_LOWER);
+    paths.band.addRect({
+      x: paddingLeft,
+      y: upperY,
+      width: chartW,
+      height: lowerY - upperY,
+    });
+    paths.guides.moveTo(paddingLeft, upperY);
+    paths.guides.lineTo(right, upperY);
+    paths.guides.moveTo(paddingLeft, lowerY);
+    paths.guides.lineTo(right, lowerY);
+  } else {
+    const zeroY = toY(0);
+    paths.guides.moveTo(paddingLeft, zeroY);
+    paths.guides.lineTo(right, zeroY);
+  }
+
+  const count = source.count;
+  if (count === 0) return;
+  const src = source.src;
+  const { first, last } = visibleSlice(src, count, leftEdge, rightEdge);
+  addLine(paths.line, src, state.main, first, last, toX, toY);
+  if (spec.type !== "macd") return;
+
+  addLine(paths.signal, src, state.signal, first, last, toX, toY);
+  const pxPerPoint =
+    last > first
+      ? ((src[last * 2] - src[first * 2]) / (last - first) / span) * chartW
+      : chartW;
+  const barW = Math.max(1, pxPerPoint * HIST_WIDTH_RATIO);
+  const zeroY = toY(0);
+  for (let i = first; i <= last; i++) {
+    const h = state.hist[i];
+    if (!Number.isFinite(h) || h === 0) continue;
+    const x = toX(src[i * 2]) - barW / 2;
+    const y = toY(h);
+    const top = Math.min(y, zeroY);
+    const height = Math.max(0.5, Math.abs(y - zeroY));
+    (h > 0 ? paths.histUp : paths.histDown).addRect({
+      x,
+      y: top,
+      width: barW,
+      height,
+    });
+  }
+}
+
+/** Adaptive precision for oscillator grid labels and readouts. */
+export function formatOscillatorValue(v: number): string {
+  "worklet";
+  const abs = Math.abs(v);
+  if (abs >= 100) return v.toFixed(0);
+  if (abs >= 1 || abs === 0) return v.toFixed(2);
+  return v.toPrecision(3);
+}
+
+/**
+ * Pane header readout at time `t`, e.g. "RSI 14  63.21" or
+ * "MACD 12 26 9  0.124  0.101  0.023" (line, signal, histogram).
+ */
+export function oscillatorReadout(
+  state: OscillatorState,
+  source: IndicatorState,
+  t: number,
+): string {
+  "worklet";
+  const spec = state.spec;
+  if (!spec) return "";
+  if (source.count === 0) return spec.label;
+  const at = (values: Float64Array): string => {
+    const v = indicatorValueAtTime(source.src, values, source.count, t);
+    return Number.isFinite(v) ? formatOscillatorValue(v) : "–";
+  };
+  if (spec.type === "rsi") return `${spec.label}  ${at(state.main)}`;
+  return `${spec.label}  ${at(state.main)}  ${at(state.signal)}  ${at(state.hist)}`;
+}
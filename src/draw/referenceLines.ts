@@ -0,0 +1,189 @@
+import { valueToY } from "../math/scale";
+
+// Label text box above its line, measured from the baseline
+const LABEL_HEIGHT = 11;
+const LABEL_OFFSET = 4;
+const BADGE_CLEARANCE = 4;
+
+export interface ReferenceLineSlot {
+  active: number;
+  y: number;
+  labelY: number;
+  // 1 when the label moved to the left edge to clear the live badge
+  labelLeft: number;
+}
+
+export interface PriceBandSlot {
+  active: number;
+  top: number;
+  bottom: number;
+  labelY: number;
+  labelLeft: number;
+}
+
+function createReferenceLineSlot(): ReferenceLineSlot {
+  "worklet";
+  return { active: 0, y: -1000, labelY: -1000, labelLeft: 0 };
+}
+
+function createPriceBandSlot(): PriceBandSlot {
+  "worklet";
+  return { active: 0, top: -1000, bottom: -1000, labelY: -1000, labelLeft: 0 };
+}
+
+export function createReferenceLineSlots(count: number): ReferenceLineSlot[] {
+  return Array.from({ length: count }, createReferenceLineSlot);
+}
+
+export function createPriceBandSlots(count: number): PriceBandSlot[] {
+  return Array.from({ length: count }, createPriceBandSlot);
+}
+
+function overlapsBadge(
+  labelY: number,
+  badgeTop: number,
+  badgeBottom: number,
+): boolean {
+  "worklet";
+  return (
+    labelY > badgeTop - BADGE_CLEARANCE &&
+    labelY - LABEL_HEIGHT < badgeBottom + BADGE_CLEARANCE
+  );
+}
+
+/**
+ * Position reference lines for this frame. Labels sit right-aligned above
+ * their line and jump to the left edge when they would run into the live
+ * badge (pass NaN badge bounds when there is no badge). The pool grows in
+ * place to one slot per line, so there is no cap on how many are drawn.
+ *
+ * Returns true if any slot changed.
+ */
+export function updateReferenceLineSlots(
+  slots: ReferenceLineSlot[],
+  values: number[],
+  rangeMin: number,
+  rangeSpan: number,
+  logScale: boolean,
+  paddingTop: number,
+  innerHeight: number,
+  badgeTop: number,
+  badgeBottom: number,
+): boolean {
+  "worklet";
+  let dirty = false;
+  while (slots.length < values.length) slots.push(createReferenceLineSlot());
+  for (let i = 0; i < slots.length; i++) {
+    const slot = slots[i];
+    const v = i < values.length ? values[i] : NaN;
+    if (!Number.isFinite(v)) {
+      if (slot.active !== 0) {
+        slot.active = 0;
+        slot.y = -1000;
+        slot.labelY = -1000;
+        dirty = true;
+      }
+      continue;
+    }
+    const y = valueToY(
+      v,
+      rangeMin,
+      rangeSpan,
+      paddingTop,
+      innerHeight,
+      logScale,
+    );
+    const labelY = y - LABEL_OFFSET;
+    const labelLeft = overlapsBadge(labelY, badgeTop, badgeBottom) ? 1 : 0;
+    if (
+      slot.active !== 1 ||
+      Math.abs(slot.y - y) > 1e-4 ||
+      slot.labelLeft !== labelLeft
+    ) {
+      slot.active = 1;
+      slot.y = y;
+      slot.labelY = labelY;
+      slot.labelLeft = labelLeft;
+      dirty = true;
+    }
+  }
+  return dirty;
+}
+
+/**
+ * Position price bands for this frame. Labels sit inside the band's upper
+ * edge (kept within the plot) with the same badge avoidance as lines, and
+ * the pool grows the same way.
+ *
+ * Returns true if any slot changed.
+ */
+export function updatePriceBandSlots(
+  slots: PriceBandSlot[],
+  froms: number[],
+  tos: number[],
+  rangeMin: number,
+  rangeSpan: number,
+  logScale: boolean,
+  paddingTop: number,
+  innerHeight: number,
+  badgeTop: number,
+  badgeBottom: number,
+): boolean {
+  "worklet";
+  const plotBottom = paddingTop + innerHeight;
+  let dirty = false;
+  while (slots.length < froms.length) slots.push(createPriceBandSlot());
+  for (let i = 0; i < slots.length; i++) {
+    const slot = slots[i];
+    const from = i < froms.length ? froms[i] : NaN;
+    const to = i < tos.length ? tos[i] : NaN;
+    if (!Number.isFinite(from) || !Number.isFinite(to)) {
+      if (slot.active !== 0) {
+        slot.active = 0;
+        slot.top = -1000;
+        slot.bottom = -1000;
+        slot.labelY = -1000;
+        dirty = true;
+      }
+      continue;
+    }
+    const yA = valueToY(
+      from,
+      rangeMin,
+      rangeSpan,
+      paddingTop,
+      innerHeight,
+      logScale,
+    );
+    const yB = valueToY(
+      to,
+      rangeMin,
+      rangeSpan,
+      paddingTop,
+      innerHeight,
+      logScale,
+    );
+    const top = Math.min(yA, yB);
+    const bottom = Math.max(yA, yB);
+    const visibleTop = Math.max(top, paddingTop);
+    const labelY = Math.min(
+      visibleTop + LABEL_HEIGHT + 2,
+      Math.min(bottom, plotBottom) - 2,
+    );
+    const labelLeft = overlapsBadge(labelY, badgeTop, badgeBottom) ? 1 : 0;
+    if (
+      slot.active !== 1 ||
+      Math.abs(slot.top - top) > 1e-4 ||
+      Math.abs(slot.bottom - bottom) > 1e-4 ||
+      slot.labelLeft !== labelLeft
+    ) {
+      slot.active = 1;
+      slot.top = top;
+      slot.bottom = bottom;
+      slot.labelY = labelY;
+      slot.labelLeft = labelLeft;
+      dirty = true;
+    }
+  }
+  return dirty;
+}
@@ -0,0 +1,189 @@
+import type { TradingHours } from "../types";
+import { zonedWallToUtcMs, type ResolvedTimeZone } from "./timeZone";
+
+/**
+ * Session-compressed time ("session time") for `tradingHours`.
+ *
+ * The engine works in session seconds: real unix seconds with every closed
+ * period (nights, weekends, holidays) cut out, so pan, pinch, crosshair
+ * lookup and candle placement all stay linear. Inputs are mapped with
+ * `toSessionTime` on the way in and labels / callbacks with
+ * `fromSessionTime` on the way out.
+ */
+
+const ONE_MINUTE_MS = 60_000;
+const ONE_DAY_MS = 86_400_000;
+const ONE_YEAR_MS = 365 * ONE_DAY_MS;
+// Span covered by the session table, relative to when it was resolved.
+// Times outside it map linearly from the nearest end.
+const TABLE_PAST_MS = 10 * ONE_YEAR_MS;
+const TABLE_FUTURE_MS = 2 * ONE_YEAR_MS;
+const DEFAULT_TRADING_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Sessions as parallel arrays of unix seconds; `offsets[i]` is the session
+ * time at `opens[i]`.
+ */
+export interface ResolvedSessions {
+  opens: number[];
+  closes: number[];
+  offsets: number[];
+  // Open seconds per real second, averaged over the table
+  openRatio: number;
+}
+
+const HH_MM_RE = /^(\d{1,2}):(\d{2})$/;
+
+function parseWallMinutes(text: string): number | null {
+  const match = HH_MM_RE.exec(text.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || hours * 60 + minutes > 1440) return null;
+  return hours * 60 + minutes;
+}
+
+function wallDayKey(dayMs: number): string {
+  return new Date(dayMs).toISOString().slice(0, 10);
+}
+
+/**
+ * Build the session table on the JS thread. Returns null for a missing or
+ * malformed spec, which keeps the plain linear time scale.
+ */
+export function resolveSessions(
+  hours: TradingHours | undefined,
+  zone: ResolvedTimeZone | null,
+): ResolvedSessions | null {
+  if (!hours) return null;
+  const openMin = parseWallMinutes(hours.open);
+  const closeMin = parseWallMinutes(hours.close);
+  if (openMin === null || closeMin === null) return null;
+  const days = hours.days ?? DEFAULT_TRADING_DAYS;
+  const holidays = new Set(hours.holidays ?? []);
+  // Overnight sessions close on the following day
+  const closeWallMin = closeMin > openMin ? closeMin : closeMin + 1440;
+
+  const now = Date.now();
+  const firstDay = Math.floor((now - TABLE_PAST_MS) / ONE_DAY_MS);
+  const lastDay = Math.floor((now + TABLE_FUTURE_MS) / ONE_DAY_MS);
+  const opens: number[] = [];
+  const closes: number[] = [];
+  for (let day = firstDay; day <= lastDay; day++) {
+    const dayMs = day * ONE_DAY_MS;
+    if (!days.includes(new Date(dayMs).getUTCDay())) continue;
+    if (holidays.has(wallDayKey(dayMs))) continue;
+    let open = zonedWallToUtcMs(dayMs + openMin * ONE_MINUTE_MS, zone) / 1000;
+    const close =
+      zonedWallToUtcMs(dayMs + closeWallMin * ONE_MINUTE_MS, zone) / 1000;
+    const prevClose = closes.length > 0 ? closes[closes.length - 1] : -Infinity;
+    if (open < prevClose) open = prevClose;
+    if (close <= open) continue;
+    if (open === prevClose) {
+      // Back-to-back sessions merge
+      closes[closes.length - 1] = close;
+      continue;
+    }
+    opens.push(open);
+    closes.push(close);
+  }
+  if (opens.length === 0) return null;
+
+  const offsets: number[] = [opens[0]];
+  for (let i = 1; i < opens.length; i++) {
+    offsets.push(offsets[i - 1] + closes[i - 1] - opens[i - 1]);
+  }
+  const last = opens.length - 1;
+  const openSecs = offsets[last] + closes[last] - opens[last] - offsets[0];
+  const realSecs = closes[last] - opens[0];
+  return {
+    opens,
+    closes,
+    offsets,
+    openRatio: realSecs > 0 ? openSecs / realSecs : 1,
+  };
+}
+
+/** Index of the last session opening at or before `t`, or -1. */
+function sessionIndexAt(t: number, sessions: ResolvedSessions): number {
+  "worklet";
+  const opens = sessions.opens;
+  if (opens.length === 0 || t < opens[0]) return -1;
+  let lo = 0;
+  let hi = opens.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (opens[mid] <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Unix seconds → session seconds. Times in a closed period collapse onto
+ * the boundary between the sessions around it.
+ */
+export function toSessionTime(
+  t: number,
+  sessions: ResolvedSessions | null,
+): number {
+  "worklet";
+  if (!sessions || !Number.isFinite(t)) return t;
+  const i = sessionIndexAt(t, sessions);
+  if (i < 0) return sessions.offsets[0] + t - sessions.opens[0];
+  const last = sessions.opens.length - 1;
+  // Past the table: keep advancing so the live edge never stalls
+  const end = i === last ? t : Math.min(t, sessions.closes[i]);
+  return sessions.offsets[i] + end - sessions.opens[i];
+}
+
+/** Index of the last session starting at or before session time `s`, or -1. */
+function sessionIndexAtSessionTime(
+  s: number,
+  sessions: ResolvedSessions,
+): number {
+  "worklet";
+  const offsets = sessions.offsets;
+  if (offsets.length === 0 || s < offsets[0]) return -1;
+  let lo = 0;
+  let hi = offsets.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= s) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/** Session seconds → unix seconds (a boundary maps to the next open). */
+export function fromSessionTime(
+  s: number,
+  sessions: ResolvedSessions | null,
+): number {
+  "worklet";
+  if (!sessions || !Number.isFinite(s)) return s;
+  const i = sessionIndexAtSessionTime(s, sessions);
+  if (i < 0) return sessions.opens[0] + s - sessions.offsets[0];
+  return sessions.opens[i] + s - sessions.offsets[i];
+}
+
+/**
+ * Session time at which the session holding session time `s` opened
+ * (the first session's open for earlier times).
+ */
+export function sessionStartAt(s: number, sessions: ResolvedSessions): number {
+  "worklet";
+  return sessions.offsets[Math.max(0, sessionIndexAtSessionTime(s, sessions))];
+}
+
+/** `t` when inside a session, else the next session's open (or Infinity). */
+export function sessionOpenAtOrAfter(
+  t: number,
+  sessions: ResolvedSessions,
+): number {
+  "worklet";
+  const i = sessionIndexAt(t, sessions);
+  if (i >= 0 && t < sessions.closes[i]) return t;
+  if (i === sessions.opens.length - 1 && i >= 0) return t;
+  return i + 1 < sessions.opens.length ? sessions.opens[i + 1] : Infinity;
+}
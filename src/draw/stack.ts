@@ -0,0 +1,210 @@
+import type { SkPath } from "@shopify/react-native-skia";
+import { valueToY } from "../math/scale";
+import { interpolateSeriesAtTime } from "./crosshair";
+import { buildSmoothPathFromVisiblePoints, type SplineBuffer } from "./line";
+
+/**
+ * Stacked multi-series layers (`seriesStack`).
+ *
+ * Series rarely share timestamps, so every series is sampled on shared
+ * columns across the window and accumulated in series order. Each layer's
+ * top edge then goes through the regular spline builder, and its band runs
+ * back along the edge of the layer below.
+ */
+
+// Horizontal spacing of the shared sample columns
+const STACK_SAMPLE_PX = 3;
+
+export interface StackScratch {
+  // Sample columns this frame; each layer row also holds its live top
+  columns: number;
+  times: Float64Array;
+  // Cumulative layer tops, row-major with `columns + 1` entries per series
+  // (value units, or percent of the column total when 100%-stacked)
+  tops: Float64Array;
+  // One layer's (time, top) pairs for the spline builder
+  points: Float64Array;
+}
+
+export interface StackedSeriesSlot {
+  alpha: number;
+  displayValue: number;
+}
+
+export function createStackScratch(): StackScratch {
+  return {
+    columns: 0,
+    times: new Float64Array(0),
+    tops: new Float64Array(0),
+    points: new Float64Array(0),
+  };
+}
+
+/**
+ * Sample and accumulate every series from `start` to the live edge. Series
+ * weigh in by their visibility alpha, so toggling one slides the layers
+ * above it instead of jumping. Writes the stacked extent (always including
+ * zero) to `out`.
+ */
+export function sampleStackedSeries(
+  scratch: StackScratch,
+  buffers: Float64Array[],
+  counts: number[],
+  slots: StackedSeriesSlot[],
+  seriesCount: number,
+  start: number,
+  span: number,
+  liveTime: number,
+  chartWidth: number,
+  share: boolean,
+  out: { min: number; max: number },
+): void {
+  "worklet";
+  const step = (span * STACK_SAMPLE_PX) / Math.max(chartWidth, 1);
+  const columns = Math.max(1, Math.floor((liveTime - start) / step) + 1);
+  const stride = columns + 1;
+  if (scratch.times.length < columns) {
+    scratch.times = new Float64Array(columns * 2);
+  }
+  if (scratch.tops.length < stride * seriesCount) {
+    scratch.tops = new Float64Array(stride * seriesCount * 2);
+  }
+  if (scratch.points.length < columns * 2) {
+    scratch.points = new Float64Array(columns * 4);
+  }
+  scratch.columns = columns;
+  const times = scratch.times;
+  const tops = scratch.tops;
+  for (let k = 0; k < columns; k++) times[k] = start + k * step;
+
+  for (let i = 0; i < seriesCount; i++) {
+    const row = i * stride;
+    const prev = row - stride;
+    const count = counts[i];
+    const weight = count > 0 ? slots[i].alpha : 0;
+    for (let k = 0; k <= columns; k++) {
+      const below = i > 0 ? tops[prev + k] : 0;
+      if (weight === 0) {
+        tops[row + k] = below;
+        continue;
+      }
+      const v =
+        k === columns
+          ? slots[i].displayValue
+          : interpolateSeriesAtTime(buffers[i], count, times[k]);
+      tops[row + k] = below + v * weight;
+    }
+  }
+
+  // The last row holds the column totals; it is normalized last, so every
+  // row still divides by the raw total
+  let min = 0;
+  let max = 0;
+  const lastRow = (seriesCount - 1) * stride;
+  for (let i = 0; i < seriesCount; i++) {
+    const row = i * stride;
+    for (let k = 0; k <= columns; k++) {
+      let top = tops[row + k];
+      if (share) {
+        const total = tops[lastRow + k];
+        top = total !== 0 ? (top / total) * 100 : 0;
+        tops[row + k] = top;
+      }
+      if (top < min) min = top;
+      if (top > max) max = top;
+    }
+  }
+  out.min = min;
+  out.max = max;
+}
+
+/**
+ * Build layer `layer`'s top edge into `line` and its band into `band`. The
+ * band closes along `below`, the spline buffer the previous drawn layer was
+ * built with (its xs/ys hold that edge in pixels), or along the zero line
+ * for the bottom layer. Returns the layer's live y.
+ */
+export function buildStackedLayerPaths(
+  line: SkPath,
+  band: SkPath,
+  scratch: StackScratch,
+  layer: number,
+  below: SplineBuffer | null,
+  rangeMin: number,
+  rangeSpan: number,
+  start: number,
+  span: number,
+  chartWidth: number,
+  chartHeight: number,
+  paddingLeft: number,
+  paddingTop: number,
+  liveX: number,
+  chartReveal: number,
+  centerY: number,
+  loadingAmplitude: number,
+  loadingScroll: number,
+  buf: SplineBuffer,
+): number {
+  "worklet";
+  const columns = scratch.columns;
+  const row = layer * (columns + 1);
+  const points = scratch.points;
+  for (let k = 0; k < columns; k++) {
+    points[k * 2] = scratch.times[k];
+    points[k * 2 + 1] = scratch.tops[row + k];
+  }
+  const liveY = valueToY(
+    scratch.tops[row + columns],
+    rangeMin,
+    rangeSpan,
+    paddingTop,
+    chartHeight,
+    false,
+  );
+  buildSmoothPathFromVisiblePoints(
+    line,
+    points,
+    columns,
+    0,
+    columns - 1,
+    start,
+    span,
+    chartWidth,
+    chartHeight,
+    rangeMin,
+    rangeSpan,
+    false,
+    paddingLeft,
+    paddingTop,
+    liveX,
+    liveY,
+    chartReveal,
+    centerY,
+    loadingAmplitude,
+    loadingScroll,
+    buf,
+  );
+
+  band.addPath(line);
+  if (below) {
+    for (let j = columns; j >= 0; j--) band.lineTo(below.xs[j], below.ys[j]);
+  } else {
+    const zeroY = Math.min(
+      Math.max(
+        valueToY(0, rangeMin, rangeSpan, paddingTop, chartHeight, false),
+        paddingTop,
+      ),
+      paddingTop + chartHeight,
+    );
+    band.lineTo(buf.xs[columns], zeroY);
+    band.lineTo(buf.xs[0], zeroY);
+  }
+  band.close();
+  return liveY;
+}
+
+/** Value axis label on a 100%-stacked chart, e.g. "40%" or "12.5%". */
+export function formatStackShareWorklet(v: number): string {
+  "worklet";
+  return `${Number(v.toFixed(1))}%`;
+}
@@ -1,6 +1,22 @@
-import { niceTimeInterval } from "../math/intervals";
+import {
+  CALENDAR_MONTH_SECS,
+  CALENDAR_YEAR_SECS,
+  ONE_DAY_SECS,
+  ONE_HOUR_SECS,
+  ONE_WEEK_SECS,
+  nextTimeInterval,
+  niceTimeInterval,
+} from "../math/intervals";
 import type { TimeFormatPreset } from "../types";
 import { formatAxisTimeByPresetWorklet } from "./timeFormat";
+import type { ResolvedLocale } from "./locale";
+import {
+  fromSessionTime,
+  sessionOpenAtOrAfter,
+  toSessionTime,
+  type ResolvedSessions,
+} from "./sessions";
+import { zonedDate, zonedWallToUtcMs, type ResolvedTimeZone } from "./timeZone";
 
 export { niceTimeInterval } from "../math/intervals";
 
@@ -18,12 +34,16 @@ export interface TimeLabelSlot {
 /** Pre-allocated scratch buffers for updateTimeSlots to avoid per-frame arrays. */
 export interface TimeScratch {
   targetKeys: number[];
+  // Unix seconds each target tick is labelled with (differs from the key's
+  // position under `tradingHours`)
+  targetTimes: number[];
   visibleIdx: number[];
 }
 
 export function createTimeScratch(): TimeScratch {
   return {
     targetKeys: new Array(MAX_TIME_LABELS).fill(0),
+    targetTimes: new Array(MAX_TIME_LABELS).fill(0),
     visibleIdx: new Array(MAX_TIME_LABELS).fill(0),
   };
 }
@@ -51,6 +71,65 @@ export function defaultFormatTimeWorklet(ms: number): string {
   return `${hh}:${mm}:${ss}`;
 }
 
+/**
+ * Latest tick boundary at or before `t` (unix seconds). Hour+ intervals are
+ * aligned on the zone's wall clock: days on midnight, weeks on Mondays,
+ * months / quarters / years on their first day.
+ */
+function calendarTickFloor(
+  t: number,
+  interval: number,
+  timeZone: ResolvedTimeZone | null,
+): number {
+  "worklet";
+  if (interval < ONE_HOUR_SECS) return Math.floor(t / interval) * interval;
+  const d = zonedDate(t * 1000, timeZone);
+  const year = d.getUTCFullYear();
+  let wallMs = 0;
+  if (interval >= CALENDAR_YEAR_SECS) {
+    const step = Math.round(interval / CALENDAR_YEAR_SECS);
+    wallMs = Date.UTC(Math.floor(year / step) * step, 0, 1);
+  } else if (interval >= CALENDAR_MONTH_SECS) {
+    const step = Math.round(interval / CALENDAR_MONTH_SECS);
+    wallMs = Date.UTC(year, Math.floor(d.getUTCMonth() / step) * step, 1);
+  } else if (interval === ONE_WEEK_SECS) {
+    const sinceMonday = (d.getUTCDay() + 6) % 7;
+    wallMs = Date.UTC(year, d.getUTCMonth(), d.getUTCDate() - sinceMonday);
+  } else {
+    const stepMs = interval * 1000;
+    wallMs = Math.floor(d.getTime() / stepMs) * stepMs;
+  }
+  return zonedWallToUtcMs(wallMs, timeZone) / 1000;
+}
+
+/**
+ * Tick boundary following `t`. Steps are taken in wall-clock time so DST
+ * days (23h / 25h) and variable month lengths don't drift ticks off their
+ * boundaries.
+ */
+function calendarTickNext(
+  t: number,
+  interval: number,
+  timeZone: ResolvedTimeZone | null,
+): number {
+  "worklet";
+  if (interval < ONE_HOUR_SECS) return t + interval;
+  const d = zonedDate(t * 1000, timeZone);
+  let wallMs = 0;
+  if (interval >= CALENDAR_YEAR_SECS) {
+    const step = Math.round(interval / CALENDAR_YEAR_SECS);
+    wallMs = Date.UTC(d.getUTCFullYear() + step, 0, 1);
+  } else if (interval >= CALENDAR_MONTH_SECS) {
+    const step = Math.round(interval / CALENDAR_MONTH_SECS);
+    wallMs = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + step, 1);
+  } else {
+    wallMs = d.getTime() + interval * 1000;
+  }
+  const next = zonedWallToUtcMs(wallMs, timeZone) / 1000;
+  // A wall time skipped by DST can map back onto `t`; always move forward
+  return next > t ? next : t + interval;
+}
+
 export function createTimeSlots(): TimeLabelSlot[] {
   return Array.from({ length: MAX_TIME_LABELS }, () => ({
     key: Number.MIN_SAFE_INTEGER,
@@ -64,6 +143,9 @@ export function createTimeSlots(): TimeLabelSlot[] {
 
 /**
  * Update time axis label slots: assign ticks, fade in/out, resolve overlaps.
+ * With `sessions`, `start`/`rightEdge`/windows are session seconds: ticks
+ * are generated on the real calendar and mapped in, intraday ticks skip
+ * closed periods and day+ ticks collapsed onto one boundary keep the latest.
  * Returns true when any slot was mutated (caller should signal Reanimated).
  */
 export function updateTimeSlots(
@@ -82,39 +164,56 @@ export function updateTimeSlots(
     | ((tMs: number, windowSecs: number, intervalSecs: number) => string)
     | undefined,
   timeFormatPreset: TimeFormatPreset | undefined,
+  timeZone: ResolvedTimeZone | null,
+  locale: ResolvedLocale | null,
+  sessions: ResolvedSessions | null,
   buf: TimeScratch,
 ): boolean {
   "worklet";
 
+  // Day+ intervals span closed time too; size them by their open share
+  const openRatio = sessions ? sessions.openRatio : 1;
   let interval = niceTimeInterval(targetWindowSecs);
+  let openSpan = interval >= ONE_DAY_SECS ? interval * openRatio : interval;
   const targetPxPerSec = innerWidth / targetWindowSecs;
-  while (interval * targetPxPerSec < 60 && interval < targetWindowSecs) {
-    interval *= 2;
+  while (openSpan * targetPxPerSec < 60 && openSpan < targetWindowSecs) {
+    interval = nextTimeInterval(interval);
+    openSpan = interval >= ONE_DAY_SECS ? interval * openRatio : interval;
   }
 
   const chartLeft = paddingLeft;
   const chartRight = paddingLeft + innerWidth;
   const fadeZone = 50;
 
-  const useLocalDays = interval >= 86_400;
-  let firstTick = 0;
-  if (useLocalDays) {
-    const d = new Date((start - interval) * 1000);
-    d.setHours(0, 0, 0, 0);
-    firstTick = d.getTime() / 1000;
-  } else {
-    firstTick = Math.ceil((start - interval) / interval) * interval;
-  }
-
   const targetKeys = buf.targetKeys;
+  const targetTimes = buf.targetTimes;
   let keyCount = 0;
-  for (
-    let t = firstTick;
-    t <= rightEdge + interval && keyCount < MAX_TIME_LABELS;
-    t += interval
-  ) {
-    targetKeys[keyCount] = Math.round(t * 100);
-    keyCount += 1;
+  const tickEnd = fromSessionTime(rightEdge, sessions) + interval;
+  let t = calendarTickFloor(
+    fromSessionTime(start, sessions),
+    interval,
+    timeZone,
+  );
+  while (t <= tickEnd && keyCount < MAX_TIME_LABELS) {
+    if (sessions && interval < ONE_DAY_SECS) {
+      const open = sessionOpenAtOrAfter(t, sessions);
+      if (open !== t) {
+        // Jump the closed period instead of stepping through it
+        if (!Number.isFinite(open)) break;
+        t = calendarTickFloor(open, interval, timeZone);
+        if (t < open) t = calendarTickNext(t, interval, timeZone);
+        continue;
+      }
+    }
+    const key = Math.round(toSessionTime(t, sessions) * 100);
+    if (keyCount > 0 && targetKeys[keyCount - 1] === key) {
+      targetTimes[keyCount - 1] = t;
+    } else {
+      targetKeys[keyCount] = key;
+      targetTimes[keyCount] = t;
+      keyCount += 1;
+    }
+    t = calendarTickNext(t, interval, timeZone);
   }
 
   let dirty = false;
@@ -147,7 +246,7 @@ export function updateTimeSlots(
     if (targetIdx < 0) continue;
     const slot = slots[targetIdx];
     const tSec = key / 100;
-    const tMs = tSec * 1000;
+    const tMs = targetTimes[k] * 1000;
     const text = formatAxisTimeWorklet
       ? formatAxisTimeWorklet(tMs, windowSecsNow, interval)
       : formatTimeWorklet
@@ -157,6 +256,8 @@ export function updateTimeSlots(
             windowSecsNow,
             interval,
             timeFormatPreset,
+            timeZone,
+            locale,
           );
 
     if (slot.key !== key) {
@@ -1,8 +1,15 @@
 import type { TimeFormatPreset } from "../types";
+import { joinLocaleParts, type ResolvedLocale } from "./locale";
+import { zonedDate, type ResolvedTimeZone } from "./timeZone";
+
+import {
+  CALENDAR_MONTH_SECS,
+  CALENDAR_YEAR_SECS,
+  ONE_DAY_SECS,
+  ONE_HOUR_SECS,
+  ONE_WEEK_SECS,
+} from "../math/intervals";
 
-const ONE_DAY_SECS = 86_400;
-const ONE_HOUR_SECS = 3_600;
-const ONE_WEEK_SECS = 7 * ONE_DAY_SECS;
 const SIX_MONTHS_SECS = 180 * ONE_DAY_SECS;
 
 const MONTHS_SHORT = [
@@ -20,60 +27,142 @@ const MONTHS_SHORT = [
   "Dec",
 ];
 
+// Every formatter below takes a zoned Date (see `zonedDate`) and reads its
+// wall-clock fields with the getUTC* methods. A null locale keeps the
+// original English formats (24h axis times, 12h relative crosshair times).
+
 function pad2(n: number): string {
   "worklet";
   return n < 10 ? `0${n}` : `${n}`;
 }
 
-function formatHHmm(d: Date): string {
+function format12h(
+  d: Date,
+  withMinutes: boolean,
+  withSeconds: boolean,
+  locale: ResolvedLocale | null,
+): string {
   "worklet";
-  return `${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+  const hours24 = d.getUTCHours();
+  const suffix =
+    hours24 >= 12 ? (locale ? locale.pm : "PM") : locale ? locale.am : "AM";
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+  let text = `${hours12}`;
+  if (withMinutes) text += `:${pad2(d.getUTCMinutes())}`;
+  if (withSeconds) text += `:${pad2(d.getUTCSeconds())}`;
+  return `${text} ${suffix}`;
 }
 
-function formatHHmmss(d: Date): string {
+function formatHHmm(d: Date, locale: ResolvedLocale | null): string {
   "worklet";
-  return `${formatHHmm(d)}:${pad2(d.getSeconds())}`;
+  if (locale?.hourCycle === "h12") return format12h(d, true, false, locale);
+  return `${pad2(d.getUTCHours())}:${pad2(d.getUTCMinutes())}`;
 }
 
-function formatHourAmPm(d: Date): string {
+function formatHHmmss(d: Date, locale: ResolvedLocale | null): string {
   "worklet";
-  const hours24 = d.getHours();
-  const suffix = hours24 >= 12 ? "PM" : "AM";
-  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
-  return `${hours12} ${suffix}`;
+  if (locale?.hourCycle === "h12") return format12h(d, true, true, locale);
+  return `${pad2(d.getUTCHours())}:${pad2(d.getUTCMinutes())}:${pad2(d.getUTCSeconds())}`;
 }
 
-function formatHourMinuteAmPm(d: Date): string {
+function formatHourAmPm(d: Date, locale: ResolvedLocale | null): string {
   "worklet";
-  const hours24 = d.getHours();
-  const suffix = hours24 >= 12 ? "PM" : "AM";
-  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
-  return `${hours12}:${pad2(d.getMinutes())} ${suffix}`;
+  if (locale?.hourCycle === "h23") return `${pad2(d.getUTCHours())}:00`;
+  return format12h(d, false, false, locale);
 }
 
-function formatHourMinuteSecondAmPm(d: Date): string {
+function formatHourMinuteAmPm(d: Date, locale: ResolvedLocale | null): string {
   "worklet";
-  const hours24 = d.getHours();
-  const suffix = hours24 >= 12 ? "PM" : "AM";
-  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
-  return `${hours12}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())} ${suffix}`;
+  if (locale?.hourCycle === "h23") return formatHHmm(d, locale);
+  return format12h(d, true, false, locale);
+}
+
+function formatHourMinuteSecondAmPm(
+  d: Date,
+  locale: ResolvedLocale | null,
+): string {
+  "worklet";
+  if (locale?.hourCycle === "h23") return formatHHmmss(d, locale);
+  return format12h(d, true, true, locale);
+}
+
+function monthName(d: Date, locale: ResolvedLocale | null): string {
+  "worklet";
+  const names = locale ? locale.monthNames : MONTHS_SHORT;
+  return names[d.getUTCMonth()] ?? names[0];
+}
+
+function weekdayName(d: Date, locale: ResolvedLocale): string {
+  "worklet";
+  return locale.weekdayNames[d.getUTCDay()] ?? "";
+}
+
+function formatMonthDay(d: Date, locale: ResolvedLocale | null): string {
+  "worklet";
+  const month = monthName(d, locale);
+  return locale?.dayFirst
+    ? `${d.getUTCDate()} ${month}`
+    : `${month} ${d.getUTCDate()}`;
 }
 
-function formatMonthDay(d: Date): string {
+function formatMonthDayYear(d: Date, locale: ResolvedLocale | null): string {
   "worklet";
-  const month = MONTHS_SHORT[d.getMonth()] ?? "Jan";
-  return `${month} ${d.getDate()}`;
+  if (locale?.dayFirst) {
+    return `${formatMonthDay(d, locale)} ${d.getUTCFullYear()}`;
+  }
+  return `${formatMonthDay(d, locale)}, ${d.getUTCFullYear()}`;
 }
 
-function formatMonthDayYear(d: Date): string {
+function formatMonthYear(d: Date, locale: ResolvedLocale | null): string {
   "worklet";
-  return `${formatMonthDay(d)}, ${d.getFullYear()}`;
+  return `${monthName(d, locale)} ${d.getUTCFullYear()}`;
 }
 
-function formatMonthYear(d: Date): string {
+/**
+ * Label for a month / quarter / year tick: the year on year ticks (and on
+ * January month ticks, marking the boundary), otherwise the month name.
+ * Null for finer ticks.
+ */
+function formatCalendarTick(
+  d: Date,
+  intervalSecs: number,
+  locale: ResolvedLocale | null,
+): string | null {
   "worklet";
-  const month = MONTHS_SHORT[d.getMonth()] ?? "Jan";
-  return `${month} ${d.getFullYear()}`;
+  if (intervalSecs >= CALENDAR_YEAR_SECS) return `${d.getUTCFullYear()}`;
+  if (intervalSecs >= CALENDAR_MONTH_SECS) {
+    return d.getUTCMonth() === 0
+      ? `${d.getUTCFullYear()}`
+      : monthName(d, locale);
+  }
+  return null;
+}
+
+/**
+ * Label for a date tick. Daily ticks across a week or two read as weekdays
+ * ("Tue 9") when a locale is set; otherwise the month and day.
+ */
+function formatDayTick(
+  d: Date,
+  windowSecs: number,
+  intervalSecs: number,
+  locale: ResolvedLocale | null,
+): string {
+  "worklet";
+  if (
+    locale &&
+    intervalSecs >= ONE_DAY_SECS &&
+    intervalSecs < ONE_WEEK_SECS &&
+    windowSecs <= ONE_WEEK_SECS * 2
+  ) {
+    return joinLocaleParts(
+      weekdayName(d, locale),
+      `${d.getUTCDate()}`,
+      " ",
+      locale,
+    );
+  }
+  return formatMonthDay(d, locale);
 }
 
 function resolvePreset(preset: TimeFormatPreset | undefined): TimeFormatPreset {
@@ -86,76 +175,107 @@ export function formatAxisTimeByPresetWorklet(
   windowSecs: number,
   intervalSecs: number,
   preset: TimeFormatPreset | undefined,
+  timeZone: ResolvedTimeZone | null = null,
+  locale: ResolvedLocale | null = null,
 ): string {
   "worklet";
-  const d = new Date(ms);
+  const d = zonedDate(ms, timeZone);
   const resolved = resolvePreset(preset);
 
   if (resolved === "intraday") {
-    return intervalSecs < 60 ? formatHHmmss(d) : formatHHmm(d);
+    return intervalSecs < 60 ? formatHHmmss(d, locale) : formatHHmm(d, locale);
   }
+  const calendarLabel = formatCalendarTick(d, intervalSecs, locale);
+  if (calendarLabel !== null) return calendarLabel;
   if (resolved === "swing") {
-    return formatMonthDay(d);
+    return formatDayTick(d, windowSecs, intervalSecs, locale);
   }
   if (resolved === "dateOnly") {
-    return formatMonthDay(d);
+    return formatDayTick(d, windowSecs, intervalSecs, locale);
   }
   if (resolved === "dateTime") {
-    return `${formatMonthDay(d)} ${formatHHmm(d)}`;
+    return joinLocaleParts(
+      formatMonthDay(d, locale),
+      formatHHmm(d, locale),
+      " ",
+      locale,
+    );
   }
 
   // auto
   if (windowSecs <= ONE_DAY_SECS) {
-    return intervalSecs < 60 ? formatHHmmss(d) : formatHHmm(d);
+    return intervalSecs < 60 ? formatHHmmss(d, locale) : formatHHmm(d, locale);
   }
   if (windowSecs <= SIX_MONTHS_SECS) {
-    return formatMonthDay(d);
+    return formatDayTick(d, windowSecs, intervalSecs, locale);
   }
-  return formatMonthYear(d);
+  return formatMonthYear(d, locale);
 }
 
 export function formatCrosshairTimeByPresetWorklet(
   ms: number,
   windowSecs: number,
   preset: TimeFormatPreset | undefined,
+  timeZone: ResolvedTimeZone | null = null,
+  locale: ResolvedLocale | null = null,
 ): string {
   "worklet";
-  const d = new Date(ms);
+  const d = zonedDate(ms, timeZone);
   const resolved = resolvePreset(preset);
 
   if (resolved === "intraday") {
-    return formatHHmmss(d);
+    return formatHHmmss(d, locale);
   }
   if (resolved === "swing") {
-    return `${formatMonthDay(d)}, ${formatHHmm(d)}`;
+    return joinLocaleParts(
+      formatMonthDay(d, locale),
+      formatHHmm(d, locale),
+      ", ",
+      locale,
+    );
   }
   if (resolved === "dateOnly") {
-    return formatMonthDayYear(d);
+    return formatMonthDayYear(d, locale);
   }
   if (resolved === "dateTime") {
-    return `${formatMonthDayYear(d)} ${formatHHmm(d)}`;
+    return joinLocaleParts(
+      formatMonthDayYear(d, locale),
+      formatHHmm(d, locale),
+      " ",
+      locale,
+    );
   }
 
   // auto: relative-to-now crosshair context.
   // Keep windowSecs in the signature for API stability and custom formatter parity.
   void windowSecs;
-  const now = new Date(Date.now());
-  if (d.getFullYear() !== now.getFullYear()) {
-    return formatMonthDayYear(d);
+  const nowMs = Date.now();
+  const now = zonedDate(nowMs, timeZone);
+  if (d.getUTCFullYear() !== now.getUTCFullYear()) {
+    return formatMonthDayYear(d, locale);
   }
-  const ageMs = now.getTime() - d.getTime();
+  const ageMs = nowMs - ms;
   const absAgeMs = Math.abs(ageMs);
   const isSameDay =
-    d.getFullYear() === now.getFullYear() &&
-    d.getMonth() === now.getMonth() &&
-    d.getDate() === now.getDate();
+    d.getUTCFullYear() === now.getUTCFullYear() &&
+    d.getUTCMonth() === now.getUTCMonth() &&
+    d.getUTCDate() === now.getUTCDate();
   if (isSameDay) {
     return absAgeMs < ONE_HOUR_SECS * 1000
-      ? formatHourMinuteSecondAmPm(d)
-      : formatHourMinuteAmPm(d);
+      ? formatHourMinuteSecondAmPm(d, locale)
+      : formatHourMinuteAmPm(d, locale);
   }
   if (ageMs > ONE_WEEK_SECS * 1000) {
-    return formatMonthDay(d);
+    return formatMonthDay(d, locale);
   }
-  return `${formatMonthDay(d)} at ${formatHourAmPm(d)}`;
+  // "at" is English-only; localized labels within the week join the
+  // weekday and hour
+  return locale
+    ? joinLocaleParts(
+        weekdayName(d, locale),
+        formatHourAmPm(d, locale),
+        " ",
+        locale,
+      )
+    : `${formatMonthDay(d, null)} at ${formatHourAmPm(d, null)}`;
 }
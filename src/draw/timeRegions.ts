@@ -0,0 +1,97 @@
+// Starting pool size. The pool is filled from the visible window, newest
+// first, and grows to the most regions ever in view at once, so long session
+// lists only cost their on-screen slice
+export const INITIAL_TIME_REGION_SLOTS = 24;
+
+export interface TimeRegionSlot {
+  active: number;
+  region: number; // index into the `timeRegions` prop; -1 when inactive
+  // Pixel edges; equal for a single vertical line
+  x0: number;
+  x1: number;
+}
+
+function createTimeRegionSlot(): TimeRegionSlot {
+  "worklet";
+  return { active: 0, region: -1, x0: -1000, x1: -1000 };
+}
+
+export function createTimeRegionSlots(): TimeRegionSlot[] {
+  return Array.from(
+    { length: INITIAL_TIME_REGION_SLOTS },
+    createTimeRegionSlot,
+  );
+}
+
+/**
+ * Region edges in session seconds, newest end first, with each one's index
+ * into `timeRegions`. A vertical line has `from === to`.
+ */
+export interface TimeRegionOrder {
+  froms: number[];
+  tos: number[];
+  indices: number[];
+}
+
+function writeTimeRegionSlot(
+  slot: TimeRegionSlot,
+  active: number,
+  region: number,
+  x0: number,
+  x1: number,
+): boolean {
+  "worklet";
+  if (
+    slot.active === active &&
+    slot.region === region &&
+    Math.abs(slot.x0 - x0) <= 1e-4 &&
+    Math.abs(slot.x1 - x1) <= 1e-4
+  ) {
+    return false;
+  }
+  slot.active = active;
+  slot.region = region;
+  slot.x0 = x0;
+  slot.x1 = x1;
+  return true;
+}
+
+/**
+ * Map time regions onto the visible window. Regions overlapping it fill the
+ * slots newest first, adding slots when more are in view than the pool
+ * holds; partially visible ones keep their true edges and rely on the plot
+ * clip.
+ *
+ * Returns true if any slot changed.
+ */
+export function updateTimeRegionSlots(
+  slots: TimeRegionSlot[],
+  order: TimeRegionOrder,
+  leftEdge: number,
+  rightEdge: number,
+  paddingLeft: number,
+  chartW: number,
+): boolean {
+  "worklet";
+  const span = rightEdge - leftEdge;
+  let dirty = false;
+  let next = 0;
+  for (let k = 0; k < order.tos.length; k++) {
+    if (!(span > 0)) break;
+    const tLo = order.froms[k];
+    const tHi = order.tos[k];
+    if (tHi < leftEdge) break;
+    if (tLo > rightEdge) continue;
+    const x0 = paddingLeft + ((tLo - leftEdge) / span) * chartW;
+    const x1 = paddingLeft + ((tHi - leftEdge) / span) * chartW;
+    if (next === slots.length) slots.push(createTimeRegionSlot());
+    if (writeTimeRegionSlot(slots[next], 1, order.indices[k], x0, x1)) {
+      dirty = true;
+    }
+    next++;
+  }
+  for (; next < slots.length; next++) {
+    if (writeTimeRegionSlot(slots[next], 0, -1, -1000, -1000)) dirty = true;
+  }
+  return dirty;
+}
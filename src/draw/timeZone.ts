@@ -0,0 +1,162 @@
+/**
+ * Time zone support for the UI thread.
+ *
+ * `Intl` time zone data isn't reliably available inside worklets, so the JS
+ * thread resolves a zone once into a table of UTC offset transitions and the
+ * worklets only do a binary search over it.
+ */
+
+const ONE_MINUTE_MS = 60_000;
+const ONE_DAY_MS = 86_400_000;
+const ONE_WEEK_MS = 7 * ONE_DAY_MS;
+const ONE_YEAR_MS = 365 * ONE_DAY_MS;
+// Span covered by the transition table, relative to when it was resolved.
+// Offsets outside it extend from the nearest end.
+const TABLE_PAST_MS = 10 * ONE_YEAR_MS;
+const TABLE_FUTURE_MS = 2 * ONE_YEAR_MS;
+
+/**
+ * Offsets in minutes east of UTC; `offsets[i]` applies from `starts[i]` (UTC
+ * ms) until the next start. `starts[0]` is -Infinity.
+ */
+export interface ResolvedTimeZone {
+  starts: number[];
+  offsets: number[];
+}
+
+const FIXED_OFFSET_RE = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+
+function parseFixedOffset(timeZone: string): number | null {
+  const trimmed = timeZone.trim();
+  if (/^(?:UTC|GMT|Z)$/i.test(trimmed)) return 0;
+  const match = FIXED_OFFSET_RE.exec(trimmed);
+  if (!match) return null;
+  const hours = Number(match[2]);
+  const minutes = match[3] ? Number(match[3]) : 0;
+  if (hours > 18 || minutes > 59) return null;
+  return (match[1] === "-" ? -1 : 1) * (hours * 60 + minutes);
+}
+
+function intlOffsetMinutes(dtf: Intl.DateTimeFormat, ms: number): number {
+  const fields: Record<string, number> = {};
+  for (const part of dtf.formatToParts(new Date(ms))) {
+    if (part.type !== "literal") fields[part.type] = Number(part.value);
+  }
+  const wallUtc = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    // Some engines format midnight as hour 24
+    fields.hour % 24,
+    fields.minute,
+    fields.second,
+  );
+  return Math.round((wallUtc - Math.floor(ms / 1000) * 1000) / ONE_MINUTE_MS);
+}
+
+const resolvedCache = new Map<string, ResolvedTimeZone | null>();
+
+/**
+ * Resolve an IANA zone name ("America/New_York") or a fixed UTC offset
+ * ("UTC", "+05:30", "UTC-4") on the JS thread. Returns null for undefined or
+ * unknown zones, which means "device local time".
+ */
+export function resolveTimeZone(
+  timeZone: string | undefined,
+): ResolvedTimeZone | null {
+  if (!timeZone) return null;
+  const cached = resolvedCache.get(timeZone);
+  if (cached !== undefined) return cached;
+
+  let resolved: ResolvedTimeZone | null = null;
+  const fixed = parseFixedOffset(timeZone);
+  if (fixed !== null) {
+    resolved = { starts: [-Infinity], offsets: [fixed] };
+  } else {
+    let dtf: Intl.DateTimeFormat | null = null;
+    try {
+      dtf = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+      });
+    } catch {
+      dtf = null;
+    }
+    if (dtf) resolved = buildTransitionTable(dtf);
+  }
+  resolvedCache.set(timeZone, resolved);
+  return resolved;
+}
+
+function buildTransitionTable(dtf: Intl.DateTimeFormat): ResolvedTimeZone {
+  const now = Date.now();
+  const from = now - TABLE_PAST_MS;
+  const to = now + TABLE_FUTURE_MS;
+  const starts = [-Infinity];
+  const offsets = [intlOffsetMinutes(dtf, from)];
+  // Weekly samples, then bisect each change down to the second. Zones never
+  // change offset twice within a week.
+  let prevMs = from;
+  let prevOffset = offsets[0];
+  for (let ms = from + ONE_WEEK_MS; ms <= to; ms += ONE_WEEK_MS) {
+    const offset = intlOffsetMinutes(dtf, ms);
+    if (offset !== prevOffset) {
+      let lo = prevMs;
+      let hi = ms;
+      while (hi - lo > 1000) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (intlOffsetMinutes(dtf, mid) === prevOffset) lo = mid;
+        else hi = mid;
+      }
+      starts.push(Math.ceil(hi / 1000) * 1000);
+      offsets.push(offset);
+      prevOffset = offset;
+    }
+    prevMs = ms;
+  }
+  return { starts, offsets };
+}
+
+/** Minutes east of UTC at `ms`; device local time when `zone` is null. */
+export function timeZoneOffsetMinutes(
+  zone: ResolvedTimeZone | null,
+  ms: number,
+): number {
+  "worklet";
+  if (!zone) return -new Date(ms).getTimezoneOffset();
+  const starts = zone.starts;
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= ms) lo = mid;
+    else hi = mid - 1;
+  }
+  return zone.offsets[lo];
+}
+
+/**
+ * Wall-clock fields of `ms` in the zone, read with the `getUTC*` methods
+ * (getUTCHours() is the zone's hour, etc.).
+ */
+export function zonedDate(ms: number, zone: ResolvedTimeZone | null): Date {
+  "worklet";
+  return new Date(ms + timeZoneOffsetMinutes(zone, ms) * ONE_MINUTE_MS);
+}
+
+/** Convert a wall-clock time in the zone (as UTC ms) back to real UTC ms. */
+export function zonedWallToUtcMs(
+  wallMs: number,
+  zone: ResolvedTimeZone | null,
+): number {
+  "worklet";
+  // Two passes settle the offset on either side of a DST transition
+  const guess = wallMs - timeZoneOffsetMinutes(zone, wallMs) * ONE_MINUTE_MS;
+  return wallMs - timeZoneOffsetMinutes(zone, guess) * ONE_MINUTE_MS;
+}
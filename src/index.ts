@@ -1,24 +1,46 @@
 export { Liveline } from "./Liveline";
 export { LivelineTransition } from "./LivelineTransition";
-export { SERIES_COLORS } from "./theme";
+export { INDICATOR_COLORS, SERIES_COLORS, seriesColor } from "./theme";
 export type {
   CandlePoint,
+  CandleStyle,
+  ChartMode,
   DataTransitionMode,
   DegenOptions,
   BadgeVariant,
   HoverPoint,
+  Indicator,
+  IndicatorType,
+  LineDecimation,
+  LivelineHandle,
+  LivelineLocale,
+  LivelineMarker,
   LivelineWindowControlsRenderProps,
   LivelinePoint,
   LivelineProps,
   LivelineSeries,
+  MarkerShape,
   Momentum,
   OrderbookData,
+  OrderbookOptions,
+  OrderbookSnapshot,
+  Oscillator,
+  OscillatorType,
   Padding,
+  PriceBand,
   ReferenceLine,
+  RetentionPolicy,
+  ScrollToTimeOptions,
+  SeriesStack,
   TimeFormatPreset,
   ThemeMode,
+  TimeRegion,
+  TradingHours,
+  VisibleRange,
   WindowPosition,
   WindowStyle,
   WindowOption,
+  YDomain,
+  YScale,
 } from "./types";
 export type { LivelineTransitionProps } from "./LivelineTransition";
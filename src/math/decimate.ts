@@ -0,0 +1,161 @@
+/**
+ * Point decimation over packed [t0,v0,t1,v1,...] buffers.
+ */
+
+/**
+ * Min/max envelope decimation.
+ *
+ * Points in [first, last] are grouped into `buckets` equal time slices over
+ * [t0, t1). Each non-empty slice keeps its lowest and highest point in time
+ * order, so spikes survive however far the data is thinned. The first and
+ * last points are always kept. `out` needs room for `2 * buckets + 2` points.
+ *
+ * Returns the number of points written to `out`.
+ */
+export function decimateMinMax(
+  src: Float64Array,
+  first: number,
+  last: number,
+  t0: number,
+  t1: number,
+  buckets: number,
+  out: Float64Array,
+): number {
+  "worklet";
+  if (last < first) return 0;
+  let n = 0;
+  const span = t1 - t0;
+  if (buckets < 1 || !(span > 0) || last - first + 1 <= buckets * 2 + 2) {
+    for (let i = first; i <= last; i++) {
+      out[n * 2] = src[i * 2];
+      out[n * 2 + 1] = src[i * 2 + 1];
+      n++;
+    }
+    return n;
+  }
+
+  out[0] = src[first * 2];
+  out[1] = src[first * 2 + 1];
+  n = 1;
+
+  let bucket = -1;
+  let minIdx = -1;
+  let maxIdx = -1;
+  for (let i = first + 1; i <= last; i++) {
+    const t = src[i * 2];
+    const b = Math.max(
+      0,
+      Math.min(buckets - 1, Math.floor(((t - t0) / span) * buckets)),
+    );
+    if (b !== bucket && minIdx >= 0) {
+      n = emitBucket(src, minIdx, maxIdx, last, out, n);
+      minIdx = -1;
+      maxIdx = -1;
+    }
+    bucket = b;
+    if (i === last) break;
+    const v = src[i * 2 + 1];
+    if (minIdx < 0 || v < src[minIdx * 2 + 1]) minIdx = i;
+    if (maxIdx < 0 || v > src[maxIdx * 2 + 1]) maxIdx = i;
+  }
+  if (minIdx >= 0) n = emitBucket(src, minIdx, maxIdx, last, out, n);
+
+  out[n * 2] = src[last * 2];
+  out[n * 2 + 1] = src[last * 2 + 1];
+  return n + 1;
+}
+
+function emitBucket(
+  src: Float64Array,
+  minIdx: number,
+  maxIdx: number,
+  last: number,
+  out: Float64Array,
+  n: number,
+): number {
+  "worklet";
+  const a = Math.min(minIdx, maxIdx);
+  const b = Math.max(minIdx, maxIdx);
+  if (a < last) {
+    out[n * 2] = src[a * 2];
+    out[n * 2 + 1] = src[a * 2 + 1];
+    n++;
+  }
+  if (b !== a && b < last) {
+    out[n * 2] = src[b * 2];
+    out[n * 2 + 1] = src[b * 2 + 1];
+    n++;
+  }
+  return n;
+}
+
+/**
+ * Largest-Triangle-Three-Buckets: keeps `threshold` points from [first, last],
+ * picking in each index bucket the point that spans the largest triangle with
+ * its neighbours. Preserves visual shape with fewer points than min/max.
+ *
+ * Returns the number of points written to `out`.
+ */
+export function decimateLttb(
+  src: Float64Array,
+  first: number,
+  last: number,
+  threshold: number,
+  out: Float64Array,
+): number {
+  "worklet";
+  const count = last - first + 1;
+  if (count <= 0) return 0;
+  if (threshold < 3 || count <= threshold) {
+    for (let i = 0; i < count; i++) {
+      out[i * 2] = src[(first + i) * 2];
+      out[i * 2 + 1] = src[(first + i) * 2 + 1];
+    }
+    return count;
+  }
+
+  const every = (count - 2) / (threshold - 2);
+  let a = first;
+  out[0] = src[first * 2];
+  out[1] = src[first * 2 + 1];
+  let n = 1;
+
+  for (let i = 0; i < threshold - 2; i++) {
+    // Average of the next bucket is the third triangle vertex
+    const nextStart = first + Math.floor((i + 1) * every) + 1;
+    const nextEnd = Math.min(last + 1, first + Math.floor((i + 2) * every) + 1);
+    let avgT = 0;
+    let avgV = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      avgT += src[j * 2];
+      avgV += src[j * 2 + 1];
+    }
+    const nextLen = Math.max(1, nextEnd - nextStart);
+    avgT /= nextLen;
+    avgV /= nextLen;
+
+    const rangeStart = first + Math.floor(i * every) + 1;
+    const rangeEnd = first + Math.floor((i + 1) * every) + 1;
+    const aT = src[a * 2];
+    const aV = src[a * 2 + 1];
+    let maxArea = -1;
+    let picked = rangeStart;
+    for (let j = rangeStart; j < rangeEnd; j++) {
+      const area = Math.abs(
+        (aT - avgT) * (src[j * 2 + 1] - aV) - (aT - src[j * 2]) * (avgV - aV),
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        picked = j;
+      }
+    }
+    out[n * 2] = src[picked * 2];
+    out[n * 2 + 1] = src[picked * 2 + 1];
+    n++;
+    a = picked;
+  }
+
+  out[n * 2] = src[last * 2];
+  out[n * 2 + 1] = src[last * 2 + 1];
+  return n + 1;
+}
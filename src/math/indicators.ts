@@ -0,0 +1,266 @@
+/**
+ * Technical indicator series over packed [t0,v0,t1,v1,...] buffers.
+ *
+ * Every function writes one value per source point into `out` (index
+ * aligned with the source), using NaN while the lookback is still warming up.
+ * Only points from `from` on are (re)computed; earlier outputs, and any
+ * running state the function keeps alongside them, must still be current.
+ */
+
+/** Simple moving average of the last `period` values. */
+export function computeSma(
+  src: Float64Array,
+  count: number,
+  period: number,
+  out: Float64Array,
+  from: number,
+): void {
+  "worklet";
+  const p = Math.max(1, Math.floor(period));
+  const start = Math.max(0, Math.min(from, count));
+  let sum = 0;
+  for (let j = Math.max(0, start - p); j < start; j++) sum += src[j * 2 + 1];
+  for (let i = start; i < count; i++) {
+    sum += src[i * 2 + 1];
+    if (i >= p) sum -= src[(i - p) * 2 + 1];
+    out[i] = i >= p - 1 ? sum / p : NaN;
+  }
+}
+
+/** Exponential moving average, seeded with the SMA of the first `period`. */
+export function computeEma(
+  src: Float64Array,
+  count: number,
+  period: number,
+  out: Float64Array,
+  from: number,
+): void {
+  "worklet";
+  const p = Math.max(1, Math.floor(period));
+  const k = 2 / (p + 1);
+  // Resume from the previous output once the seed is in
+  const start = from >= p ? Math.min(from, count) : 0;
+  let ema = start > 0 ? out[start - 1] : 0;
+  for (let i = start; i < count; i++) {
+    const v = src[i * 2 + 1];
+    if (i < p - 1) {
+      ema += v;
+      out[i] = NaN;
+    } else if (i === p - 1) {
+      ema = (ema + v) / p;
+      out[i] = ema;
+    } else {
+      ema += (v - ema) * k;
+      out[i] = ema;
+    }
+  }
+}
+
+/**
+ * Bollinger bands: SMA of `period` with bands `stdDev` population standard
+ * deviations above and below it.
+ */
+export function computeBollinger(
+  src: Float64Array,
+  count: number,
+  period: number,
+  stdDev: number,
+  mid: Float64Array,
+  upper: Float64Array,
+  lower: Float64Array,
+  from: number,
+): void {
+  "worklet";
+  const p = Math.max(1, Math.floor(period));
+  const start = Math.max(0, Math.min(from, count));
+  let sum = 0;
+  let sumSq = 0;
+  for (let j = Math.max(0, start - p); j < start; j++) {
+    const v = src[j * 2 + 1];
+    sum += v;
+    sumSq += v * v;
+  }
+  for (let i = start; i < count; i++) {
+    const v = src[i * 2 + 1];
+    sum += v;
+    sumSq += v * v;
+    if (i >= p) {
+      const old = src[(i - p) * 2 + 1];
+      sum -= old;
+      sumSq -= old * old;
+    }
+    if (i < p - 1) {
+      mid[i] = NaN;
+      upper[i] = NaN;
+      lower[i] = NaN;
+      continue;
+    }
+    const mean = sum / p;
+    // Clamp: rounding in the running sums can dip slightly below zero
+    const sd = Math.sqrt(Math.max(0, sumSq / p - mean * mean));
+    mid[i] = mean;
+    upper[i] = mean + sd * stdDev;
+    lower[i] = mean - sd * stdDev;
+  }
+}
+
+/**
+ * Volume-weighted average price, anchored at the first point. With no
+ * `weights` every point counts equally (a cumulative average). `totals`
+ * keeps the running weight per point so a later call can resume.
+ */
+export function computeVwap(
+  src: Float64Array,
+  weights: Float64Array | null,
+  count: number,
+  out: Float64Array,
+  totals: Float64Array,
+  from: number,
+): void {
+  "worklet";
+  const start = Math.max(0, Math.min(from, count));
+  let w = start > 0 ? totals[start - 1] : 0;
+  let pv = w > 0 ? out[start - 1] * w : 0;
+  for (let i = start; i < count; i++) {
+    const wi = weights ? weights[i] : 1;
+    pv += src[i * 2 + 1] * wi;
+    w += wi;
+    totals[i] = w;
+    out[i] = w > 0 ? pv / w : NaN;
+  }
+}
+
+/**
+ * Relative strength index (0–100) with Wilder smoothing. The running
+ * averages are kept per point in `gains` / `losses` so a later call can
+ * resume.
+ */
+export function computeRsi(
+  src: Float64Array,
+  count: number,
+  period: number,
+  out: Float64Array,
+  gains: Float64Array,
+  losses: Float64Array,
+  from: number,
+): void {
+  "worklet";
+  const p = Math.max(1, Math.floor(period));
+  const start = Math.max(1, Math.min(from, count));
+  let avgGain = start > 1 ? gains[start - 1] : 0;
+  let avgLoss = start > 1 ? losses[start - 1] : 0;
+  if (count > 0 && from <= 0) out[0] = NaN;
+  for (let i = start; i < count; i++) {
+    const change = src[i * 2 + 1] - src[(i - 1) * 2 + 1];
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    if (i <= p) {
+      avgGain += gain / p;
+      avgLoss += loss / p;
+    } else {
+      avgGain = (avgGain * (p - 1) + gain) / p;
+      avgLoss = (avgLoss * (p - 1) + loss) / p;
+    }
+    gains[i] = avgGain;
+    losses[i] = avgLoss;
+    if (i < p) {
+      out[i] = NaN;
+    } else if (avgLoss === 0) {
+      out[i] = avgGain === 0 ? 50 : 100;
+    } else {
+      out[i] = 100 - 100 / (1 + avgGain / avgLoss);
+    }
+  }
+}
+
+/**
+ * MACD: EMA(fast) − EMA(slow), its EMA(signal) and the histogram between
+ * them. Both EMAs are seeded with the SMA of their first window and kept
+ * per point in `fastEmas` / `slowEmas` so a later call can resume.
+ */
+export function computeMacd(
+  src: Float64Array,
+  count: number,
+  fast: number,
+  slow: number,
+  signal: number,
+  macd: Float64Array,
+  signalOut: Float64Array,
+  hist: Float64Array,
+  fastEmas: Float64Array,
+  slowEmas: Float64Array,
+  from: number,
+): void {
+  "worklet";
+  const pf = Math.max(1, Math.floor(fast));
+  const ps = Math.max(1, Math.floor(slow));
+  const pg = Math.max(1, Math.floor(signal));
+  const kf = 2 / (pf + 1);
+  const ks = 2 / (ps + 1);
+  const kg = 2 / (pg + 1);
+  const warmup = Math.max(pf, ps) - 1;
+  // Resume once the signal line is seeded; before that, start over
+  let start = Math.max(0, Math.min(from, count));
+  if (start - warmup < pg) start = 0;
+  let emaF = start > 0 ? fastEmas[start - 1] : 0;
+  let emaS = start > 0 ? slowEmas[start - 1] : 0;
+  let sig = start > 0 ? signalOut[start - 1] : 0;
+  let macdSeen = start > 0 ? start - warmup : 0;
+  for (let i = start; i < count; i++) {
+    const v = src[i * 2 + 1];
+    if (i < pf) emaF += v / pf;
+    else emaF += (v - emaF) * kf;
+    if (i < ps) emaS += v / ps;
+    else emaS += (v - emaS) * ks;
+    fastEmas[i] = emaF;
+    slowEmas[i] = emaS;
+
+    if (i < Math.max(pf, ps) - 1) {
+      macd[i] = NaN;
+      signalOut[i] = NaN;
+      hist[i] = NaN;
+      continue;
+    }
+    const m = emaF - emaS;
+    macd[i] = m;
+    macdSeen++;
+    if (macdSeen < pg) {
+      sig += m / pg;
+      signalOut[i] = NaN;
+      hist[i] = NaN;
+      continue;
+    }
+    if (macdSeen === pg) sig += m / pg;
+    else sig += (m - sig) * kg;
+    signalOut[i] = sig;
+    hist[i] = m - sig;
+  }
+}
+
+/**
+ * Value of an index-aligned indicator series at time `t`, linearly
+ * interpolated between the surrounding points. NaN outside the series or
+ * while either neighbour is still warming up.
+ */
+export function indicatorValueAtTime(
+  src: Float64Array,
+  values: Float64Array,
+  count: number,
+  t: number,
+): number {
+  "worklet";
+  if (count === 0) return NaN;
+  if (t <= src[0]) return values[0];
+  if (t >= src[(count - 1) * 2]) return values[count - 1];
+  let lo = 0;
+  let hi = count - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (src[mid * 2] <= t) lo = mid;
+    else hi = mid;
+  }
+  const t0 = src[lo * 2];
+  const seg = src[hi * 2] - t0;
+  if (seg <= 0) return values[lo];
+  return values[lo] + (values[hi] - values[lo]) * ((t - t0) / seg);
+}
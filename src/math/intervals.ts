@@ -1,3 +1,30 @@
+export const ONE_HOUR_SECS = 3_600;
+export const ONE_DAY_SECS = 86_400;
+export const ONE_WEEK_SECS = 7 * ONE_DAY_SECS;
+// Nominal lengths for calendar steps. Ticks at these intervals are placed on
+// real month / year starts; the values only rank and label them.
+export const CALENDAR_MONTH_SECS = 30 * ONE_DAY_SECS;
+export const CALENDAR_YEAR_SECS = 365 * ONE_DAY_SECS;
+
+// Steps from one hour up; beyond the last entry intervals keep doubling
+const CALENDAR_LADDER = [
+  ONE_HOUR_SECS,
+  2 * ONE_HOUR_SECS,
+  3 * ONE_HOUR_SECS,
+  6 * ONE_HOUR_SECS,
+  12 * ONE_HOUR_SECS,
+  ONE_DAY_SECS,
+  2 * ONE_DAY_SECS,
+  ONE_WEEK_SECS,
+  CALENDAR_MONTH_SECS,
+  3 * CALENDAR_MONTH_SECS,
+  6 * CALENDAR_MONTH_SECS,
+  CALENDAR_YEAR_SECS,
+  2 * CALENDAR_YEAR_SECS,
+  5 * CALENDAR_YEAR_SECS,
+  10 * CALENDAR_YEAR_SECS,
+];
+
 /** Pick a nice time interval in seconds for time axis labels. */
 export function niceTimeInterval(windowSecs: number): number {
   "worklet";
@@ -12,6 +39,25 @@ export function niceTimeInterval(windowSecs: number): number {
   if (windowSecs <= 14400) return 1800; // 4hr → 30min ticks
   if (windowSecs <= 43200) return 3600; // 12hr → 1hr ticks
   if (windowSecs <= 86400) return 7200; // 1day → 2hr ticks
-  if (windowSecs <= 604800) return 86400; // 1week → 1day ticks
-  return 604800; // beyond → 1week ticks
+  if (windowSecs <= 604800) return ONE_DAY_SECS; // 1week → 1day ticks
+  if (windowSecs <= 62 * ONE_DAY_SECS) return ONE_WEEK_SECS; // → Mondays
+  if (windowSecs <= CALENDAR_YEAR_SECS) return CALENDAR_MONTH_SECS;
+  if (windowSecs <= 3 * CALENDAR_YEAR_SECS) return 3 * CALENDAR_MONTH_SECS;
+  return CALENDAR_YEAR_SECS;
+}
+
+/**
+ * Next coarser interval when labels at `interval` would be too dense:
+ * doubling below an hour, then hours → days → Mondays → months → quarters
+ * → years so ticks stay on calendar boundaries.
+ */
+export function nextTimeInterval(interval: number): number {
+  "worklet";
+  if (interval < ONE_HOUR_SECS) {
+    return Math.min(interval * 2, ONE_HOUR_SECS);
+  }
+  for (let i = 0; i < CALENDAR_LADDER.length; i++) {
+    if (CALENDAR_LADDER[i] > interval) return CALENDAR_LADDER[i];
+  }
+  return interval * 2;
 }
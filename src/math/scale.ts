@@ -0,0 +1,74 @@
+// Non-positive values on a log scale clamp to this floor
+const LOG_FLOOR = 1e-12;
+// Smallest log range (natural log units, ~0.4%) so flat data still has room
+const MIN_LOG_RANGE = 0.004;
+
+/**
+ * Per-frame value scale shared by every value → y mapping. Percent mode
+ * keeps linear geometry; only labels and readouts are rebased.
+ */
+export interface ValueScale {
+  log: boolean;
+  // Value the percent scale measures from (first visible value); NaN when
+  // the scale is not "percent"
+  percentBase: number;
+}
+
+export function createValueScale(): ValueScale {
+  return { log: false, percentBase: Number.NaN };
+}
+
+/** Y pixel for `v` in [rangeMin, rangeMin + rangeSpan], linear or log. */
+export function valueToY(
+  v: number,
+  rangeMin: number,
+  rangeSpan: number,
+  top: number,
+  height: number,
+  log: boolean,
+): number {
+  "worklet";
+  if (!log)
+    return top + (1 - (v - rangeMin) / Math.max(rangeSpan, 1e-9)) * height;
+  const lo = Math.log(Math.max(rangeMin, LOG_FLOOR));
+  const hi = Math.log(Math.max(rangeMin + rangeSpan, LOG_FLOOR));
+  const lv = Math.log(Math.max(v, LOG_FLOOR));
+  return top + (1 - (lv - lo) / Math.max(hi - lo, 1e-12)) * height;
+}
+
+/**
+ * Log-scale counterpart of the linear range padding: `marginFactor` and the
+ * minimum range apply to ratios, so the padded range stays positive.
+ */
+export function padLogRange(
+  out: { min: number; max: number },
+  min: number,
+  max: number,
+  marginFactor: number,
+): void {
+  "worklet";
+  const lo = Math.log(Math.max(min, LOG_FLOOR));
+  const hi = Math.log(Math.max(max, LOG_FLOOR));
+  const raw = hi - lo;
+  const minRange = Math.max(raw * 0.1, MIN_LOG_RANGE);
+  if (raw < minRange) {
+    const mid = (lo + hi) / 2;
+    out.min = Math.exp(mid - minRange / 2);
+    out.max = Math.exp(mid + minRange / 2);
+  } else {
+    out.min = Math.exp(lo - raw * marginFactor);
+    out.max = Math.exp(hi + raw * marginFactor);
+  }
+}
+
+/** Percent change of `v` from `base` (0 at the base). */
+export function toPercentChange(v: number, base: number): number {
+  "worklet";
+  return (v / base - 1) * 100;
+}
+
+/** True when `scale` rebases to a usable (positive) percent base. */
+export function hasPercentBase(scale: ValueScale): boolean {
+  "worklet";
+  return Number.isFinite(scale.percentBase) && scale.percentBase > 0;
+}
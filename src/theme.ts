@@ -186,6 +186,37 @@ export const SERIES_COLORS = [
   "#f97316", // orange
 ];
 
+// Generated series colors step hue by the golden angle from the last
+// SERIES_COLORS entry, cycling lightness so near hues still separate
+const GENERATED_HUE_STEP = 137.508;
+const GENERATED_HUE_START = 25;
+const GENERATED_LIGHTNESS = [55, 68, 44];
+
+const toHexByte = (n: number) => n.toString(16).padStart(2, "0");
+
+/**
+ * Default color for the series at `index`: SERIES_COLORS first, then
+ * generated hues for any number of series beyond it.
+ */
+export function seriesColor(index: number): string {
+  if (index < SERIES_COLORS.length) return SERIES_COLORS[index];
+  const n = index - SERIES_COLORS.length;
+  const { r, g, b } = hslToRgb({
+    h: GENERATED_HUE_START + (n + 1) * GENERATED_HUE_STEP,
+    s: 72,
+    l: GENERATED_LIGHTNESS[n % GENERATED_LIGHTNESS.length],
+  });
+  return `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}`;
+}
+
+// Default indicator overlay colors, picked by position in `indicators`
+export const INDICATOR_COLORS = [
+  "#f59e0b", // amber
+  "#8b5cf6", // violet
+  "#06b6d4", // cyan
+  "#ec4899", // pink
+];
+
 export function resolveSeriesPalettes(
   series: LivelineSeries[],
   mode: "light" | "dark",
@@ -193,7 +224,7 @@ export function resolveSeriesPalettes(
   const map = new Map<string, Palette>();
   for (let i = 0; i < series.length; i++) {
     const s = series[i];
-    map.set(s.id, derivePalette(s.color, mode));
+    map.set(s.id, derivePalette(s.color ?? seriesColor(i), mode));
   }
   return map;
 }
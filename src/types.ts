@@ -13,10 +13,38 @@ export type TimeFormatPreset =
   | "dateOnly"
   | "dateTime";
 export type ValueDisplayMode = "latest" | "hover";
+
+// Overrides on top of the defaults derived from `locale` (via Intl)
+export interface LivelineLocale {
+  locale?: string; // BCP 47 tag, e.g. "de-DE"; device default when omitted
+  monthNames?: string[]; // 12 short month names, January first
+  weekdayNames?: string[]; // 7 short weekday names, Sunday first (daily ticks, crosshair)
+  hourCycle?: "h12" | "h23";
+  decimalSeparator?: string;
+  groupSeparator?: string;
+  dayFirst?: boolean; // "9 Mar" instead of "Mar 9"
+  rtl?: boolean; // lay out date + time labels right-to-left
+}
 export type DataTransitionMode =
   | "none"
   | "loadingBridge";
 
+/**
+ * How much history the engine keeps from `data` (and each series).
+ * - "count": newest `maxPoints` points
+ * - "time": points within `maxAgeSecs` of the newest point, optionally capped
+ *   at `maxPoints`
+ * - "unbounded": the full span; past `maxPoints`, older history is min/max
+ *   decimated instead of dropped
+ */
+export type RetentionPolicy =
+  | { mode: "count"; maxPoints: number }
+  | { mode: "time"; maxAgeSecs: number; maxPoints?: number }
+  | { mode: "unbounded"; maxPoints?: number };
+
+// Level-of-detail thinning for slices denser than the plot's pixel columns.
+export type LineDecimation = "minmax" | "lttb" | "none";
+
 export interface LivelinePoint {
   time: number;
   value: number;
@@ -28,6 +56,30 @@ export interface CandlePoint {
   high: number;
   low: number;
   close: number;
+  volume?: number; // traded volume, drawn in the volume pane
+}
+
+export type IndicatorType = "sma" | "ema" | "bollinger" | "vwap";
+
+export interface Indicator {
+  type: IndicatorType;
+  period?: number; // lookback in points (candles in candle mode), default 20
+  stdDev?: number; // bollinger band width in standard deviations, default 2
+  color?: string;
+  label?: string; // crosshair label, defaults to e.g. "SMA 20"
+}
+
+export type OscillatorType = "rsi" | "macd";
+
+export interface Oscillator {
+  type: OscillatorType;
+  period?: number; // RSI lookback, default 14
+  fast?: number; // MACD fast EMA, default 12
+  slow?: number; // MACD slow EMA, default 26
+  signal?: number; // MACD signal EMA, default 9
+  height?: number; // pane height as a fraction of the chart (default 0.25)
+  color?: string; // RSI / MACD line
+  signalColor?: string; // MACD signal line
 }
 
 export interface WindowOption {
@@ -47,6 +99,68 @@ export interface LivelineWindowControlsRenderProps {
 export interface ReferenceLine {
   value: number;
   label?: string;
+  color?: string; // line + label color (default: theme reference color)
+  dash?: number[] | false; // dash intervals (default [4, 4]); false for solid
+}
+
+// Shaded value range, e.g. a take-profit zone or an option strike range
+export interface PriceBand {
+  from: number;
+  to: number;
+  color?: string; // fill + label color (default: theme reference color)
+  label?: string;
+}
+
+// Session shading (pre-market, halts) or, without `to`, a vertical line
+export interface TimeRegion {
+  from: number; // unix seconds
+  to?: number; // unix seconds; omit for a vertical line at `from`
+  color?: string; // default: theme reference color
+  label?: string;
+}
+
+export type MarkerShape =
+  "circle" | "square" | "diamond" | "triangleUp" | "triangleDown";
+
+// Event pinned to a timestamp (trade fill, news, market resolution)
+export interface LivelineMarker {
+  time: number; // unix seconds
+  label?: string;
+  color?: string; // default: line color
+  shape?: MarkerShape; // default "circle"
+}
+
+// Market hours for a session-compressed time scale: closed periods (nights,
+// weekends, holidays) are cut out of the x axis. `window`, `candleWidth` and
+// pan/pinch distances then count open-market seconds.
+export interface TradingHours {
+  open: string; // "09:30", wall clock in `timeZone`
+  close: string; // "16:00"; at or before `open` for overnight sessions
+  days?: number[]; // weekdays with a session, 0 = Sunday (default Mon–Fri)
+  holidays?: string[]; // full-day closures, "YYYY-MM-DD"
+}
+
+// Chart mode. "bar" draws one bar per `candleWidth` interval (bucketed like
+// aggregated candles) at its last point's value, colored by sign
+export type ChartMode = "line" | "candle" | "bar";
+
+// Candle rendering. "hollow" outlines up candles, "ohlc" draws bars with
+// open/close ticks, "heikinAshi" plots Heikin-Ashi candles derived from the
+// raw OHLC
+export type CandleStyle = "filled" | "hollow" | "ohlc" | "heikinAshi";
+
+// Value axis scale. "log" spaces equal ratios equally; "percent" labels the
+// axis and crosshair as change from the first visible value (0%)
+export type YScale = "linear" | "log" | "percent";
+
+// Multi-series stacking. "stacked" fills each series as a band on top of
+// the ones before it; "percent" scales every column to 100% (share)
+export type SeriesStack = "none" | "stacked" | "percent";
+
+// Hard value-axis bounds; an omitted side stays auto-fit
+export interface YDomain {
+  min?: number;
+  max?: number;
 }
 
 export interface OrderbookData {
@@ -54,6 +168,24 @@ export interface OrderbookData {
   asks: [price: number, size: number][];
 }
 
+// One book snapshot for `orderbookHistory`
+export interface OrderbookSnapshot extends OrderbookData {
+  time: number; // unix seconds
+}
+
+// Orderbook overlay tuning
+export interface OrderbookOptions {
+  // Worklet formatter for level sizes on the labels and the depth readout
+  // (default: dollars on the labels, "$12"; compact on the readout, "1.2K")
+  formatSize?: (size: number) => string;
+  bidColor?: string; // labels default green, depth sidebar palette.positive
+  askColor?: string; // labels default red, depth sidebar palette.negative
+  density?: number; // label spawn-rate multiplier (default 1)
+  maxLabels?: number; // labels on screen at once, 1–50 (default 50)
+  speed?: number; // label rise-speed multiplier (default 1)
+  minSize?: number; // levels smaller than this never spawn a label
+}
+
 export interface HoverPoint {
   x: number;
   y: number;
@@ -61,6 +193,37 @@ export interface HoverPoint {
   value: number;
 }
 
+export interface VisibleRange {
+  start: number; // unix seconds at the left edge of the plot
+  end: number; // unix seconds at the right edge of the plot
+  min: number;
+  max: number;
+}
+
+export interface ScrollToTimeOptions {
+  animated?: boolean; // default true
+}
+
+// Imperative handle exposed through `ref`.
+export interface LivelineHandle {
+  // Snap back to the live edge and drop any pinch window override.
+  resetToLive: () => void;
+  // Center the plot on `time` (unix seconds), clamped to the live edge.
+  scrollToTime: (time: number, options?: ScrollToTimeOptions) => void;
+  // Set the visible window in seconds. Matching `windows` presets are selected.
+  setWindow: (secs: number) => void;
+  getVisibleRange: () => VisibleRange;
+  // Current crosshair point, or null when not scrubbing.
+  getHoverPoint: () => HoverPoint | null;
+  // Stream ticks without replacing `data`. Points go straight into a
+  // UI-thread buffer seeded from `data`; the newest point becomes the live
+  // value. Late points are dropped. Passing a new `data` batch resets it.
+  appendPoint: (point: LivelinePoint) => void;
+  appendPoints: (points: LivelinePoint[]) => void;
+  // Drop any gutter-drag stretch and return to the auto-fit value range.
+  resetYScale: () => void;
+}
+
 export interface Padding {
   top: number;
   right: number;
@@ -72,8 +235,12 @@ export interface LivelineSeries {
   id: string;
   data: LivelinePoint[];
   value: number;
-  color: string;
+  // Default: seriesColor(index) — SERIES_COLORS, then generated hues
+  color?: string;
   label?: string;
+  // Value axis this series is scaled against (default "right"). Left-axis
+  // series get their own range and labels while both axes are in use.
+  axis?: "left" | "right";
 }
 
 export interface DegenOptions {
@@ -87,6 +254,10 @@ export interface DegenOptions {
 export interface LivelineProps {
   data: LivelinePoint[];
   value: number;
+  // Point budget (number) or full retention policy. Default: newest 1200.
+  retention?: number | RetentionPolicy;
+  // Per-frame decimation of dense visible slices. Default "minmax".
+  decimation?: LineDecimation;
 
   theme?: ThemeMode;
   color?: string;
@@ -103,6 +274,12 @@ export interface LivelineProps {
   paused?: boolean;
   emptyText?: string;
   exaggerate?: boolean;
+  yScale?: YScale; // default "linear"
+  yDomain?: YDomain;
+  includeZero?: boolean; // keep 0 inside the auto-fit range
+  // Vertical drag on the value-axis gutter stretches the range; double-tap
+  // or `resetYScale()` returns to auto-fit. Default true
+  yAxisDrag?: boolean;
   showValue?: boolean;
   showChange?: boolean;
   /**
@@ -136,19 +313,39 @@ export interface LivelineProps {
   tooltipOutline?: boolean;
 
   orderbook?: OrderbookData;
+  orderbookOptions?: OrderbookOptions;
+  depth?: boolean; // cumulative bid/ask depth sidebar from `orderbook`
+  depthWidth?: number; // depth sidebar width as a fraction of the chart (default 0.2)
+  orderbookHistory?: OrderbookSnapshot[]; // liquidity heatmap, newest 2000
 
   referenceLine?: ReferenceLine;
+  referenceLines?: ReferenceLine[]; // styled lines; don't expand the range
+  bands?: PriceBand[]; // shaded value ranges behind the data
+  timeRegions?: TimeRegion[]; // shaded sessions or vertical lines behind the data
+  markers?: LivelineMarker[]; // event glyphs on the line/candles
+  onMarkerPress?: (marker: LivelineMarker, index: number) => void;
+  indicators?: Indicator[]; // overlays computed from data (or candles in candle mode)
+  oscillator?: Oscillator; // RSI / MACD pane under the chart
   formatValue?: (v: number) => string;
   // Legacy JS-thread formatter (kept for web parity/backward compatibility).
   // Native rendering uses worklet formatters.
   formatTime?: (t: number) => string;
   formatValueWorklet?: (v: number) => string;
+  // Left value axis + crosshair values of left-axis series (multi-series)
+  formatLeftValueWorklet?: (v: number) => string;
   // Legacy worklet formatter used for both axis + crosshair surfaces.
   formatTimeWorklet?: (t: number) => string;
   // First-class formatting configuration.
   timeFormatPreset?: TimeFormatPreset;
   axisTimeFormatPreset?: TimeFormatPreset;
   crosshairTimeFormatPreset?: TimeFormatPreset;
+  // IANA zone ("America/New_York") or fixed offset ("UTC", "+05:30") for the
+  // built-in axis/crosshair formats and day ticks. Default: device local time.
+  timeZone?: string;
+  // Month names, hour cycle and separators for every built-in formatter
+  locale?: string | LivelineLocale;
+  // Collapse closed market periods out of the time axis
+  tradingHours?: TradingHours;
   formatAxisTimeWorklet?: (
     tMs: number,
     windowSecs: number,
@@ -161,19 +358,26 @@ export interface LivelineProps {
   onHoverWorklet?: (point: HoverPoint | null) => void;
   cursor?: string;
 
-  mode?: "line" | "candle";
+  mode?: ChartMode;
   candles?: CandlePoint[];
-  candleWidth?: number; // seconds per candle
+  candleWidth?: number; // seconds per candle (and per bar in bar mode)
   liveCandle?: CandlePoint; // current live candle with real-time OHLC
+  candleStyle?: CandleStyle; // default "filled"
+  volume?: boolean; // volume bars in a pane under the candles
+  volumeHeight?: number; // volume pane height as a fraction of the chart (default 0.2)
   lineMode?: boolean; // morph candles into line display
   lineData?: LivelinePoint[]; // tick-level data for density transition
   lineValue?: number; // current tick value
-  onModeChange?: (mode: "line" | "candle") => void;
+  onModeChange?: (mode: ChartMode) => void;
+  // Adds a bar button to the built-in toggle; "bar" is only sent when set
+  barToggle?: boolean;
 
   // Multi-series mode — overrides data/value/color when provided
   series?: LivelineSeries[];
   onSeriesToggle?: (id: string, visible: boolean) => void;
   seriesToggleCompact?: boolean;
+  // Stack series into filled cumulative bands (default "none")
+  seriesStack?: SeriesStack;
 
   className?: string;
   style?: StyleProp<ViewStyle>;
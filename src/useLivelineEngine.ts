@@ -1,6 +1,8 @@
-import { useMemo } from "react";
-import { Skia, usePathValue } from "@shopify/react-native-skia";
+import { useMemo, useRef } from "react";
+import { Skia, usePathValue, type SkPath } from "@shopify/react-native-skia";
 import {
+  makeMutable,
+  runOnUI,
   useAnimatedReaction,
   useDerivedValue,
   useFrameCallback,
@@ -10,16 +12,31 @@ import {
 
 import type {
   CandlePoint,
+  CandleStyle,
+  ChartMode,
   DataTransitionMode,
   DegenOptions,
   HoverPoint,
+  Indicator,
+  LivelineLocale,
+  LivelineMarker,
   LivelinePoint,
   LivelineSeries,
   Momentum,
+  Oscillator,
   OrderbookData,
+  OrderbookSnapshot,
   Padding,
+  PriceBand,
   ReferenceLine,
+  LineDecimation,
+  TimeRegion,
+  RetentionPolicy,
+  SeriesStack,
   TimeFormatPreset,
+  TradingHours,
+  YDomain,
+  YScale,
   ValueDisplayMode,
 } from "./types";
 import {
@@ -56,10 +73,23 @@ import {
   loadingBreath,
   loadingY,
 } from "./draw/loadingShape";
+import {
+  buildDepthPaths,
+  depthAtPrice,
+  resolveDepthBook,
+  visibleDepthMax,
+} from "./draw/depth";
+import {
+  buildHeatmapPaths,
+  createHeatmapScratch,
+  resolveHeatmap,
+} from "./draw/heatmap";
 import {
   createOrderbookLabelSlots,
   createOrderbookState,
+  resolveOrderbookOptions,
   updateOrderbookLabels,
+  type ResolvedOrderbookOptions,
 } from "./draw/orderbook";
 import {
   createParticleSlots,
@@ -70,15 +100,79 @@ import {
   buildFillFromLinePath,
   buildSmoothPathFromVisiblePoints,
   createSplineBuffer,
+  type SplineBuffer,
 } from "./draw/line";
 import {
   buildCandlePaths,
+  buildVolumePaths,
   candleAtX,
   computeCandleRange,
+  formatVolume,
+  heikinAshiLive,
+  maxCandleVolume,
   type CandlePathResult,
   type CandleRange,
+  candleBucketStart,
+  createCandleAggregator,
+  toHeikinAshi,
+  updateCandleAggregator,
+  withLiveClose,
 } from "./draw/candlestick";
+import { buildBarPaths } from "./draw/bars";
+import {
+  buildIndicatorPaths,
+  createIndicatorState,
+  loadIndicatorCandles,
+  loadIndicatorPoints,
+  MAX_INDICATORS,
+  resolveIndicatorSpecs,
+  updateIndicatorCrosshair,
+  updateIndicatorValues,
+} from "./draw/indicators";
+import {
+  buildOscillatorPaths,
+  createOscillatorState,
+  formatOscillatorValue,
+  MAX_OSCILLATOR_GRID_LABELS,
+  oscillatorReadout,
+  resolveOscillatorSpec,
+  updateOscillatorTargetRange,
+  updateOscillatorValues,
+} from "./draw/oscillator";
+import {
+  createMarkerSlots,
+  updateMarkerSlots,
+  type MarkerOrder,
+} from "./draw/markers";
+import {
+  createPriceBandSlots,
+  createReferenceLineSlots,
+  updatePriceBandSlots,
+  updateReferenceLineSlots,
+} from "./draw/referenceLines";
+import {
+  createTimeRegionSlots,
+  updateTimeRegionSlots,
+  type TimeRegionOrder,
+} from "./draw/timeRegions";
+import { decimateLttb, decimateMinMax } from "./math/decimate";
 import { formatCrosshairTimeByPresetWorklet } from "./draw/timeFormat";
+import { resolveTimeZone } from "./draw/timeZone";
+import {
+  fromSessionTime,
+  resolveSessions,
+  toSessionTime,
+  type ResolvedSessions,
+} from "./draw/sessions";
+import { resolveLocale, type ResolvedLocale } from "./draw/locale";
+import { createValueScale, padLogRange, valueToY } from "./math/scale";
+import { seriesColor } from "./theme";
+import {
+  buildStackedLayerPaths,
+  createStackScratch,
+  formatStackShareWorklet,
+  sampleStackedSeries,
+} from "./draw/stack";
 
 export { MAX_GRID_LABELS } from "./draw/grid";
 export { MAX_TIME_LABELS } from "./draw/timeAxis";
@@ -106,10 +200,19 @@ const INVALID_CHANGE_PCT = -1;
 const MOMENTUM_DECAY_PER_MS = 0.994;
 const MOMENTUM_STOP_THRESHOLD = 0.00005;
 const SNAP_BACK_THRESHOLD_SECS = 0.5;
+const SCROLL_TO_LERP_SPEED = 0.15;
+const SCROLL_TO_SNAP_SECS = 0.05;
 const EMPTY_ORDERBOOK: OrderbookData = { bids: [], asks: [] };
+const DEFAULT_ORDERBOOK_OPTIONS = resolveOrderbookOptions(undefined);
+const DEFAULT_MAX_POINTS = 1200;
+// Level-of-detail: slices denser than this (points per px) get decimated
+const LOD_TRIGGER_POINTS_PER_PX = 1.5;
+const LOD_MINMAX_COLUMN_PX = 2;
+// Streaming buffer: initial spare capacity and trim slack (points)
+const STREAM_MIN_CAPACITY = 256;
+const STREAM_TRIM_SLACK_RATIO = 1 / 16;
 
 // Multi-series constants
-const MAX_SERIES = 8;
 const SERIES_TOGGLE_SPEED = 0.1;
 
 // Candle mode constants (matches web)
@@ -120,6 +223,15 @@ const CANDLE_BUFFER = 0.05;
 const CANDLE_RANGE_LERP_SPEED = 0.15;
 const CANDLE_RANGE_ADAPTIVE_BOOST = 0.2;
 const CANDLE_WIDTH_TRANS_MS = 300;
+// Gap between the plot and each sub-pane (volume and oscillator under it,
+// the depth sidebar beside it)
+export const SUB_PANE_GAP = 6;
+// Depth sidebar size-axis easing
+const DEPTH_MAX_LERP_SPEED = 0.15;
+// Orderbook heatmap intensity-scale easing
+const HEATMAP_MAX_LERP_SPEED = 0.1;
+// Oscillator pane range easing (MACD; RSI is fixed 0–100)
+const OSC_RANGE_LERP_SPEED = 0.15;
 const DEFAULT_DATA_TRANSITION_DURATION_MS = 420;
 const DATA_TRANSITION_STEP_RATIO_TRIGGER = 1.8;
 const DATA_TRANSITION_COUNT_RATIO_TRIGGER = 1.75;
@@ -149,11 +261,21 @@ function estimateStepSecs(buf: Float64Array, count: number): number {
 interface PackedPoints {
   buf: Float64Array;
   count: number;
+  // Leading points that are a folded min/max envelope, not samples
+  envelope: number;
+}
+
+interface ResolvedRetention {
+  maxPoints: number; // Infinity = no point budget
+  maxAgeSecs: number; // Infinity = no age limit
+  decimate: boolean;
 }
 
 interface EngineInput {
   data: LivelinePoint[];
   value: number;
+  retention?: number | RetentionPolicy;
+  decimation?: LineDecimation;
   windowSecs: number;
   targetWindowSecs: number;
   layoutWidth: number;
@@ -171,14 +293,30 @@ interface EngineInput {
   lerpSpeed: number;
   momentumOverride?: Momentum;
   referenceLine?: ReferenceLine;
+  referenceLines?: ReferenceLine[];
+  bands?: PriceBand[];
+  markers?: LivelineMarker[];
+  timeRegions?: TimeRegion[];
+  indicators?: Indicator[];
+  oscillator?: Oscillator;
   orderbook?: OrderbookData;
+  orderbookOptions?: ResolvedOrderbookOptions;
+  orderbookHistory?: OrderbookSnapshot[];
   degenOptions?: DegenOptions;
   formatValueWorklet?: (v: number) => string;
+  // Left value axis of a multi-series chart (defaults to formatValueWorklet)
+  formatLeftValueWorklet?: (v: number) => string;
   // Legacy formatter used for both time surfaces.
   formatTimeWorklet?: (t: number) => string;
   timeFormatPreset?: TimeFormatPreset;
   axisTimeFormatPreset?: TimeFormatPreset;
   crosshairTimeFormatPreset?: TimeFormatPreset;
+  timeZone?: string;
+  locale?: string | LivelineLocale;
+  tradingHours?: TradingHours;
+  yScale?: YScale;
+  yDomain?: YDomain;
+  includeZero?: boolean;
   formatAxisTimeWorklet?: (
     tMs: number,
     windowSecs: number,
@@ -200,11 +338,22 @@ interface EngineInput {
   panVelocitySV?: SharedValue<number>;
   isLiveSV?: SharedValue<number>;
   gestureWindowSecsSV?: SharedValue<number>;
-  // Candle mode
-  mode?: "line" | "candle";
+  scrollTargetSV?: SharedValue<number>;
+  // Gutter-drag stretch of the value range; 1 = auto-fit
+  yStretchSV?: SharedValue<number>;
+  // Candle / bar mode
+  mode?: ChartMode;
   candles?: CandlePoint[];
   candleWidth?: number;
   liveCandle?: CandlePoint;
+  candleStyle?: CandleStyle;
+  // Heights of the volume and oscillator panes (top to bottom under the
+  // plot); `padding.bottom` already includes both
+  volumePaneHeight?: number;
+  oscillatorPaneHeight?: number;
+  // Width of the depth sidebar right of the plot; `padding.right` already
+  // includes it
+  depthPaneWidth?: number;
   lineMode?: boolean;
   lineData?: LivelinePoint[];
   lineValue?: number;
@@ -212,6 +361,7 @@ interface EngineInput {
   series?: LivelineSeries[];
   isMultiSeries?: boolean;
   hiddenSeriesIds?: Set<string>;
+  seriesStack?: SeriesStack;
 }
 
 function clamp(n: number, min: number, max: number): number {
@@ -341,6 +491,7 @@ function computeRangeFromVisible(
   currentValue: number,
   referenceValue: number,
   exaggerate: boolean,
+  logScale: boolean,
 ): void {
   "worklet";
   let min = Number.POSITIVE_INFINITY;
@@ -368,6 +519,11 @@ function computeRangeFromVisible(
 
   const rawRange = max - min;
   const marginFactor = exaggerate ? 0.01 : 0.12;
+  // Non-positive data can't sit on a log scale; it keeps linear padding
+  if (logScale && min > 0) {
+    padLogRange(out, min, max, marginFactor);
+    return;
+  }
   // Use Math.max (not ||) so the minimum range floor always applies.
   // The || version only activates the floor when rawRange is exactly 0,
   // creating a cliff: flat data → span 0.4; first tiny tick → span 0.006.
@@ -387,6 +543,103 @@ function computeRangeFromVisible(
   }
 }
 
+/**
+ * Apply `yDomain` bounds, `includeZero` and the gutter-drag stretch to an
+ * auto-fit target range, in place. A bound replaces the fitted edge; the
+ * stretch scales about the centre (in log space on a log scale).
+ */
+function constrainRange(
+  out: RangeResult,
+  domainMin: number,
+  domainMax: number,
+  includeZero: boolean,
+  stretch: number,
+  logScale: boolean,
+): void {
+  "worklet";
+  const fitSpan = out.max - out.min;
+  if (includeZero && !logScale) {
+    if (out.min > 0) out.min = 0;
+    if (out.max < 0) out.max = 0;
+  }
+  if (Number.isFinite(domainMin) && (!logScale || domainMin > 0)) {
+    out.min = domainMin;
+  }
+  if (Number.isFinite(domainMax)) out.max = domainMax;
+  // A single bound past all the data keeps the fitted span
+  if (out.max <= out.min) {
+    if (Number.isFinite(domainMin)) out.max = out.min + fitSpan;
+    else out.min = out.max - fitSpan;
+  }
+  if (stretch === 1 || !(stretch > 0)) return;
+  if (logScale && out.min > 0) {
+    const lo = Math.log(out.min);
+    const hi = Math.log(out.max);
+    const mid = (lo + hi) / 2;
+    out.min = Math.exp(mid - ((hi - lo) / 2) * stretch);
+    out.max = Math.exp(mid + ((hi - lo) / 2) * stretch);
+  } else {
+    const mid = (out.min + out.max) / 2;
+    const half = ((out.max - out.min) / 2) * stretch;
+    out.min = mid - half;
+    out.max = mid + half;
+  }
+}
+
+/**
+ * Pad a multi-series axis range with the same margins and minimum span as
+ * the single-line fit.
+ */
+function fitSeriesRange(
+  out: RangeResult,
+  min: number,
+  max: number,
+  exaggerate: boolean,
+  logScale: boolean,
+): void {
+  "worklet";
+  const rawRange = max - min;
+  const margin = exaggerate ? 0.01 : 0.12;
+  const minRange = Math.max(
+    rawRange * (exaggerate ? 0.02 : 0.1),
+    exaggerate ? 0.04 : 0.4,
+  );
+  if (logScale && min > 0) {
+    padLogRange(out, min, max, margin);
+  } else if (rawRange < minRange) {
+    const mid = (min + max) / 2;
+    out.min = mid - minRange / 2;
+    out.max = mid + minRange / 2;
+  } else {
+    out.min = min - rawRange * margin;
+    out.max = max + rawRange * margin;
+  }
+}
+
+/**
+ * Step a multi-series axis range toward its target: snap outward when data
+ * would be clipped by more than half the range, otherwise lerp by `alpha`.
+ */
+function approachSeriesRange(
+  out: RangeResult,
+  curMin: number,
+  curMax: number,
+  targetMin: number,
+  targetMax: number,
+  alpha: number,
+): void {
+  "worklet";
+  const snapTh = Math.max(1e-6, curMax - curMin) * 0.5;
+  out.min =
+    targetMin < curMin && curMin - targetMin > snapTh
+      ? targetMin
+      : curMin + (targetMin - curMin) * alpha;
+  out.max =
+    targetMax > curMax && targetMax - curMax > snapTh
+      ? targetMax
+      : curMax + (targetMax - curMax) * alpha;
+}
+
 function estimateTextWidthMonospace(text: string, charWidth = 6.8): number {
   "worklet";
   return text.length * charWidth;
@@ -403,7 +656,10 @@ function formatWorkletValue(
   return formatAxisValueWorklet(v);
 }
 
-function formatPercentWorklet(v: number): string {
+function formatPercentWorklet(
+  v: number,
+  locale: ResolvedLocale | null,
+): string {
   "worklet";
   const rounded = Math.round(Math.abs(v) * 100) / 100;
   let text = rounded.toFixed(2);
@@ -412,13 +668,134 @@ function formatPercentWorklet(v: number): string {
   } else if (text.endsWith("0")) {
     text = text.slice(0, -1);
   }
+  if (locale) text = text.replace(".", locale.decimalSeparator);
   return `${text}%`;
 }
 
-function packPoints(data: LivelinePoint[]): PackedPoints {
+/**
+ * Thin the visible slice [first, last] into `out` when it holds more points
+ * than the plot has pixel columns. Returns the decimated point count, or -1
+ * when the slice is sparse enough to draw as-is.
+ */
+function decimateVisibleSlice(
+  mode: LineDecimation,
+  src: Float64Array,
+  first: number,
+  last: number,
+  start: number,
+  rightEdge: number,
+  chartWidth: number,
+  out: Float64Array,
+): number {
+  "worklet";
+  if (mode === "none" || last < first) return -1;
+  if (last - first + 1 <= chartWidth * LOD_TRIGGER_POINTS_PER_PX) return -1;
+  if (mode === "lttb") {
+    return decimateLttb(src, first, last, Math.ceil(chartWidth), out);
+  }
+  return decimateMinMax(
+    src,
+    first,
+    last,
+    start,
+    rightEdge,
+    Math.ceil(chartWidth / LOD_MINMAX_COLUMN_PX),
+    out,
+  );
+}
+
+function resolveRetention(
+  retention: number | RetentionPolicy | undefined,
+): ResolvedRetention {
+  // Omitted means no budget; anything given, zero or negative included,
+  // keeps at least 2 points
+  const budget = (n: number | undefined) =>
+    n == null ? Infinity : Math.max(2, Math.floor(n) || 0);
+  if (retention == null) {
+    return {
+      maxPoints: DEFAULT_MAX_POINTS,
+      maxAgeSecs: Infinity,
+      decimate: false,
+    };
+  }
+  if (typeof retention === "number") {
+    return {
+      maxPoints: budget(retention),
+      maxAgeSecs: Infinity,
+      decimate: false,
+    };
+  }
+  if (retention.mode === "time") {
+    return {
+      maxPoints: budget(retention.maxPoints),
+      maxAgeSecs: retention.maxAgeSecs > 0 ? retention.maxAgeSecs : Infinity,
+      decimate: false,
+    };
+  }
+  if (retention.mode === "unbounded") {
+    return {
+      maxPoints: budget(retention.maxPoints),
+      maxAgeSecs: Infinity,
+      decimate: true,
+    };
+  }
+  return {
+    maxPoints: budget(retention.maxPoints),
+    maxAgeSecs: Infinity,
+    decimate: false,
+  };
+}
+
+/**
+ * Over-budget history with decimation: the newest half of `maxPoints` stays
+ * at full resolution, older history collapses into a min/max envelope.
+ */
+function foldHistory(
+  src: Float64Array,
+  count: number,
+  maxPoints: number,
+): PackedPoints {
+  "worklet";
+  const tail = Math.floor(maxPoints / 2);
+  const headLast = count - tail - 1;
+  const buckets = Math.max(1, Math.floor((maxPoints - tail - 2) / 2));
+  // A zero-length head span can't be bucketed (decimateMinMax would copy
+  // the whole head); fall back to keeping the newest points
+  if (!(src[(headLast + 1) * 2] - src[0] > 0)) {
+    const from = count - maxPoints;
+    return {
+      buf: src.slice(from * 2, count * 2),
+      count: maxPoints,
+      envelope: 0,
+    };
+  }
+  const out = new Float64Array((buckets * 2 + 2 + tail) * 2);
+  const headCount = decimateMinMax(
+    src,
+    0,
+    headLast,
+    src[0],
+    src[(headLast + 1) * 2],
+    buckets,
+    out,
+  );
+  out.set(src.subarray((headLast + 1) * 2, count * 2), headCount * 2);
+  const folded = headCount + tail;
+  return {
+    buf: out.subarray(0, folded * 2),
+    count: folded,
+    envelope: headCount,
+  };
+}
+
+function packPoints(
+  data: LivelinePoint[],
+  retention: ResolvedRetention,
+  sessions: ResolvedSessions | null,
+): PackedPoints {
   const clean: { t: number; v: number }[] = [];
   for (let i = 0; i < data.length; i += 1) {
-    const t = data[i]?.time;
+    const t = toSessionTime(data[i]?.time, sessions);
     const v = data[i]?.value;
     if (!Number.isFinite(t) || !Number.isFinite(v)) continue;
     clean.push({ t, v });
@@ -426,21 +803,38 @@ function packPoints(data: LivelinePoint[]): PackedPoints {
 
   clean.sort((a, b) => a.t - b.t);
 
-  // Keep dense but bounded history in memory.
-  const capped = clean.length > 1200 ? clean.slice(clean.length - 1200) : clean;
+  let from = 0;
+  if (clean.length > 0 && Number.isFinite(retention.maxAgeSecs)) {
+    const oldest = clean[clean.length - 1].t - retention.maxAgeSecs;
+    while (from < clean.length && clean[from].t < oldest) from += 1;
+  }
+  const kept = clean.length - from;
+
+  if (kept <= retention.maxPoints || !retention.decimate) {
+    const count = Math.min(kept, retention.maxPoints);
+    const offset = clean.length - count;
+    const buf = new Float64Array(count * 2);
+    for (let i = 0; i < count; i += 1) {
+      buf[i * 2] = clean[offset + i].t;
+      buf[i * 2 + 1] = clean[offset + i].v;
+    }
+    return { buf, count, envelope: 0 };
+  }
 
-  const buf = new Float64Array(capped.length * 2);
-  for (let i = 0; i < capped.length; i += 1) {
-    buf[i * 2] = capped[i].t;
-    buf[i * 2 + 1] = capped[i].v;
+  const raw = new Float64Array(kept * 2);
+  for (let i = 0; i < kept; i += 1) {
+    raw[i * 2] = clean[from + i].t;
+    raw[i * 2 + 1] = clean[from + i].v;
   }
-  return { buf, count: capped.length };
+  return foldHistory(raw, kept, retention.maxPoints);
 }
 
 export function useLivelineEngine(input: EngineInput) {
   const {
     data,
     value,
+    retention,
+    decimation = "minmax",
     windowSecs,
     targetWindowSecs,
     layoutWidth,
@@ -458,13 +852,28 @@ export function useLivelineEngine(input: EngineInput) {
     lerpSpeed,
     momentumOverride,
     referenceLine,
+    referenceLines: referenceLinesInput,
+    bands: bandsInput,
+    markers: markersInput,
+    timeRegions: timeRegionsInput,
+    indicators: indicatorsInput,
+    oscillator: oscillatorInput,
     orderbook,
+    orderbookOptions = DEFAULT_ORDERBOOK_OPTIONS,
+    orderbookHistory,
     degenOptions,
-    formatValueWorklet,
+    formatValueWorklet: formatValueWorkletInput,
+    formatLeftValueWorklet: formatLeftValueWorkletInput,
     formatTimeWorklet,
     timeFormatPreset,
     axisTimeFormatPreset,
     crosshairTimeFormatPreset,
+    timeZone,
+    locale: localeInput,
+    tradingHours,
+    yScale = "linear",
+    yDomain,
+    includeZero = false,
     formatAxisTimeWorklet,
     formatCrosshairTimeWorklet,
     valueDisplayMode = "latest",
@@ -482,16 +891,23 @@ export function useLivelineEngine(input: EngineInput) {
     panVelocitySV: panVelocitySVInput,
     isLiveSV: isLiveSVInput,
     gestureWindowSecsSV: gestureWindowSecsSVInput,
+    scrollTargetSV: scrollTargetSVInput,
+    yStretchSV: yStretchSVInput,
     mode: chartMode = "line",
     candles: candlesInput,
     candleWidth: candleWidthInput,
     liveCandle: liveCandleInput,
+    candleStyle = "filled",
+    volumePaneHeight = 0,
+    depthPaneWidth = 0,
+    oscillatorPaneHeight = 0,
     lineMode: lineModeInput = false,
     lineData: lineDataInput,
     lineValue: lineValueInput,
     series: seriesInput,
     isMultiSeries: isMultiSeriesInput = false,
     hiddenSeriesIds: hiddenSeriesIdsInput,
+    seriesStack = "none",
   } = input;
 
   const resolvedTimeFormatPreset: TimeFormatPreset = timeFormatPreset ?? "auto";
@@ -500,6 +916,54 @@ export function useLivelineEngine(input: EngineInput) {
   const resolvedCrosshairTimeFormatPreset: TimeFormatPreset =
     crosshairTimeFormatPreset ?? resolvedTimeFormatPreset;
 
+  // Resolved on the JS thread; worklets only read the offset table
+  const resolvedTimeZone = useMemo(() => resolveTimeZone(timeZone), [timeZone]);
+  const timeZoneSV = useDerivedValue(
+    () => resolvedTimeZone,
+    [resolvedTimeZone],
+  );
+
+  // Keyed by content (not identity) so an inline `locale` object doesn't
+  // re-run the Intl lookups every render; the memo reads the key itself
+  const localeKey =
+    localeInput === undefined ? undefined : JSON.stringify(localeInput);
+  const resolvedLocale = useMemo(
+    () =>
+      resolveLocale(
+        localeKey === undefined
+          ? undefined
+          : (JSON.parse(localeKey) as string | LivelineLocale),
+      ),
+    [localeKey],
+  );
+  const localeSV = useDerivedValue(() => resolvedLocale, [resolvedLocale]);
+
+  // Session-compressed time scale: every time input below is mapped into
+  // session seconds once, on the JS thread
+  const tradingHoursKey = tradingHours ? JSON.stringify(tradingHours) : "";
+  const resolvedSessions = useMemo(
+    () => resolveSessions(tradingHours, resolvedTimeZone),
+    [tradingHoursKey, resolvedTimeZone],
+  );
+  const sessionsSV = useDerivedValue(
+    () => resolvedSessions,
+    [resolvedSessions],
+  );
+  // A locale swaps the default value formatter for a localized one, so the
+  // grid, badge, value readout and crosshair all follow it.
+  const formatValueWorklet = useMemo(() => {
+    if (formatValueWorkletInput || !resolvedLocale) {
+      return formatValueWorkletInput;
+    }
+    return (v: number) => {
+      "worklet";
+      return formatAxisValueWorklet(v, resolvedLocale);
+    };
+  }, [formatValueWorkletInput, resolvedLocale]);
+
+  const formatLeftValueWorklet =
+    formatLeftValueWorkletInput ?? formatValueWorklet;
+
   const hasOnHoverWorklet = typeof onHoverWorklet === "function";
 
   // Memo justified: packPoints sorts + allocates, and `value` changes
@@ -507,7 +971,29 @@ export function useLivelineEngine(input: EngineInput) {
   // Returns a packed Float64Array [t0,v0,t1,v1,...] — Reanimated transfers
   // Float64Array via its ArrayBuffer fast path (1 buffer copy, zero object
   // allocations on UI thread), eliminating the GC jitter from 1200 {t,v} clones.
-  const packed = useMemo(() => packPoints(data), [data]);
+  const resolvedRetention = resolveRetention(retention);
+  const retentionMaxPoints = resolvedRetention.maxPoints;
+  const retentionMaxAgeSecs = resolvedRetention.maxAgeSecs;
+  const retentionDecimate = resolvedRetention.decimate;
+  const packed = useMemo(
+    () =>
+      packPoints(
+        data,
+        {
+          maxPoints: retentionMaxPoints,
+          maxAgeSecs: retentionMaxAgeSecs,
+          decimate: retentionDecimate,
+        },
+        resolvedSessions,
+      ),
+    [
+      data,
+      retentionMaxPoints,
+      retentionMaxAgeSecs,
+      retentionDecimate,
+      resolvedSessions,
+    ],
+  );
   const hasInputData = packed.count > 0;
 
   // Pack data + live value into a single Float64Array so they transfer
@@ -528,9 +1014,141 @@ export function useLivelineEngine(input: EngineInput) {
     return buf;
   }, [packed, value]);
   const pointsBufSV = useDerivedValue(() => packedWithValue, [packedWithValue]);
+  const pointsEnvelopeSV = useDerivedValue(
+    () => packed.envelope,
+    [packed.envelope],
+  );
   // Count is derived from buffer length on the UI thread (not a separate
   // shared value) so it's always in sync with the buffer contents.
   // Buffer layout: [t0,v0, ..., tN,vN, liveValue] → count = (len - 1) / 2
+
+  // ── Streaming appends ────────────────────────────────────────────
+  // appendPoints() writes into a UI-thread buffer with the same layout as
+  // pointsBufSV plus spare capacity, so a tick costs one small runOnUI
+  // message instead of re-packing `data` on the JS thread. The stream is
+  // inactive (count 0) until the first append; a new `data` array drops it,
+  // and a new `value` becomes its live value.
+  const streamBufSV = useSharedValue(new Float64Array(0));
+  const streamCountSV = useSharedValue(0);
+  const streamEnvelopeSV = useSharedValue(0);
+  // Points trimmed or folded off the front since the stream was seeded, so
+  // `streamBase + i` numbers a point the same across trims
+  const streamBaseSV = useSharedValue(0);
+  // Bumps once per packed `data` history (not per `value`)
+  const historySeqRef = useRef(0);
+  const historySeq = useMemo(() => ++historySeqRef.current, [packed]);
+  const historySeqSV = useDerivedValue(() => historySeq, [historySeq]);
+
+  useAnimatedReaction(
+    () => historySeqSV.value,
+    (seq, prevSeq) => {
+      "worklet";
+      if (prevSeq !== null && seq !== prevSeq) streamCountSV.value = 0;
+    },
+  );
+  useAnimatedReaction(
+    () => pointsBufSV.value,
+    (buf) => {
+      "worklet";
+      const count = streamCountSV.value;
+      if (count === 0 || buf.length === 0) return;
+      streamBufSV.value[count * 2] = buf[buf.length - 1];
+    },
+  );
+
+  const appendStreamPoints = (flat: number[]) => {
+    "worklet";
+    let buf = streamBufSV.value;
+    let count = streamCountSV.value;
+    let live = count > 0 ? buf[count * 2] : 0;
+    let envelope = streamEnvelopeSV.value;
+    let base = streamBaseSV.value;
+    if (count === 0) {
+      // Seed from the current `data` snapshot
+      const seed = pointsBufSV.value;
+      const seedCount = seed.length > 0 ? (seed.length - 1) / 2 : 0;
+      const needed = (seedCount + STREAM_MIN_CAPACITY) * 2 + 1;
+      if (buf.length < needed) buf = new Float64Array(needed);
+      buf.set(seed.subarray(0, seedCount * 2));
+      count = seedCount;
+      live = seed.length > 0 ? seed[seedCount * 2] : 0;
+      envelope = pointsEnvelopeSV.value;
+      base = 0;
+    }
+
+    for (let i = 0; i + 1 < flat.length; i += 2) {
+      const t = flat[i];
+      const v = flat[i + 1];
+      if (!Number.isFinite(t) || !Number.isFinite(v)) continue;
+      if (count > 0) {
+        const lastT = buf[(count - 1) * 2];
+        // Late ticks are dropped; same-timestamp ticks replace the value
+        if (t < lastT) continue;
+        if (t === lastT) {
+          buf[(count - 1) * 2 + 1] = v;
+          live = v;
+          continue;
+        }
+      }
+      if ((count + 1) * 2 + 1 > buf.length) {
+        const grown = new Float64Array(Math.max(buf.length * 2, 64));
+        grown.set(buf.subarray(0, count * 2));
+        buf = grown;
+      }
+      buf[count * 2] = t;
+      buf[count * 2 + 1] = v;
+      count += 1;
+      live = v;
+    }
+
+    // Retention, trimmed in slack-sized batches so steady-state appends
+    // don't shift the whole window every tick.
+    if (count > 0) {
+      const slack = Number.isFinite(retentionMaxPoints)
+        ? Math.max(1, Math.floor(retentionMaxPoints * STREAM_TRIM_SLACK_RATIO))
+        : 0;
+      let drop = 0;
+      if (Number.isFinite(retentionMaxAgeSecs)) {
+        const oldest = buf[(count - 1) * 2] - retentionMaxAgeSecs;
+        drop = findFirstPointIndexAtOrAfter(buf, count, oldest);
+        if (drop < slack) drop = 0;
+      }
+      if (count - drop > retentionMaxPoints + slack) {
+        if (retentionDecimate) {
+          const folded = foldHistory(buf, count, retentionMaxPoints);
+          buf.set(folded.buf);
+          base += count - folded.count;
+          count = folded.count;
+          envelope = folded.envelope;
+        } else {
+          drop = count - retentionMaxPoints;
+        }
+      }
+      if (drop > 0) {
+        buf.copyWithin(0, drop * 2, count * 2);
+        count -= drop;
+        base += drop;
+        envelope = Math.max(0, envelope - drop);
+      }
+    }
+
+    buf[count * 2] = live;
+    streamBufSV.value = buf;
+    streamEnvelopeSV.value = envelope;
+    streamBaseSV.value = base;
+    streamCountSV.value = count;
+  };
+
+  const appendPoints = (points: LivelinePoint[]) => {
+    const flat: number[] = [];
+    for (let i = 0; i < points.length; i += 1) {
+      flat.push(
+        toSessionTime(points[i]?.time, resolvedSessions),
+        points[i]?.value,
+      );
+    }
+    if (flat.length > 0) runOnUI(appendStreamPoints)(flat);
+  };
   const windowSecsSV = useDerivedValue(() => windowSecs, [windowSecs]);
   const targetWindowSecsSV = useDerivedValue(
     () => targetWindowSecs,
@@ -587,6 +1205,8 @@ export function useLivelineEngine(input: EngineInput) {
   const displayWindowSecsSV = useSharedValue(Math.max(1, windowSecs));
   const visibleStartIndexSV = useSharedValue(0);
   const visibleEndIndexSV = useSharedValue(-1);
+  const visibleStartSecSV = useSharedValue(0);
+  const visibleEndSecSV = useSharedValue(0);
 
   const dotXSV = useSharedValue(padding.left);
   const dotYSV = useSharedValue(padding.top);
@@ -607,6 +1227,8 @@ export function useLivelineEngine(input: EngineInput) {
   // Pre-allocated scratch buffers — avoids per-frame array allocations that
   // create GC pressure on the Hermes UI thread runtime.
   const splineBufferSV = useSharedValue(createSplineBuffer(256));
+  // Scratch for level-of-detail decimated slices (grown on the UI thread)
+  const lodBufferSV = useSharedValue(new Float64Array(0));
   const fillSplineBufferSV = useSharedValue(createSplineBuffer(256));
   const loadingSplineBufferSV = useSharedValue(createSplineBuffer(64));
   const gridScratchSV = useSharedValue(createGridScratch());
@@ -614,6 +1236,27 @@ export function useLivelineEngine(input: EngineInput) {
   const crosshairResultSV = useSharedValue(createCrosshairResult());
   const timeScratchSV = useSharedValue(createTimeScratch());
   const rangeScratchSV = useSharedValue<RangeResult>({ min: 0, max: 1 });
+  // Stacked series and bars always use a plain linear axis
+  const stacked = isMultiSeriesInput && seriesStack !== "none";
+  const stackShare = stacked && seriesStack === "percent";
+  const isBar = chartMode === "bar";
+  const logScale = yScale === "log" && !stacked && !isBar;
+  const percentScale = yScale === "percent" && !stacked && !isBar;
+  const domainMin =
+    yDomain?.min !== undefined && Number.isFinite(yDomain.min)
+      ? yDomain.min
+      : Number.NaN;
+  const domainMax =
+    yDomain?.max !== undefined && Number.isFinite(yDomain.max)
+      ? yDomain.max
+      : Number.NaN;
+  // Stretch the ranges were last fitted with; a change snaps them
+  const appliedYStretchSV = useSharedValue(1);
+  // Per-frame value scale handed to the grid and crosshair
+  const valueScaleSV = useSharedValue(createValueScale());
+  // First visible value per series: the 0% line on a multi-series percent
+  // scale, where every series is plotted as an index (100 at its base)
+  const seriesPercentBasesSV = useSharedValue<number[]>([]);
   // String caching: only re-format when the display value changes at the
   // Only reformat when the value changes at display precision (6dp).
   // This eliminates ~7 string allocations per frame from formatAxisValueWorklet
@@ -674,6 +1317,31 @@ export function useLivelineEngine(input: EngineInput) {
   const orderbookStateSV = useSharedValue(createOrderbookState());
   const orderbookLabelsSV = useSharedValue(createOrderbookLabelSlots());
   const orderbookClearedSV = useSharedValue(1);
+
+  // Depth sidebar: the book sorted and accumulated once per update
+  const depthBook = useMemo(() => resolveDepthBook(orderbook), [orderbook]);
+  const depthBookSV = useDerivedValue(() => depthBook, [depthBook]);
+  const depthBidPathSV = useSharedValue(Skia.Path.Make());
+  const depthAskPathSV = useSharedValue(Skia.Path.Make());
+  const depthMaxSV = useSharedValue(0);
+  // Cumulative size at the crosshair price; empty inside the spread
+  const depthHoverTextSV = useSharedValue("");
+  const depthHoverBidSV = useSharedValue(1); // 1 = bid side, 0 = ask side
+
+  // Orderbook heatmap: the newest snapshots flattened once per update, one
+  // path per intensity level (faintest first)
+  const heatmap = useMemo(
+    () => resolveHeatmap(orderbookHistory, resolvedSessions),
+    [orderbookHistory, resolvedSessions],
+  );
+  const heatmapSV = useDerivedValue(() => heatmap, [heatmap]);
+  const heatmapScratchSV = useSharedValue(createHeatmapScratch());
+  const heatmapMaxSV = useSharedValue(0);
+  const heatmapExtentSV = useSharedValue({ max: 0 });
+  const heatmapPath0SV = useSharedValue(Skia.Path.Make());
+  const heatmapPath1SV = useSharedValue(Skia.Path.Make());
+  const heatmapPath2SV = useSharedValue(Skia.Path.Make());
+  const heatmapPath3SV = useSharedValue(Skia.Path.Make());
   const particleStateSV = useSharedValue(createParticleState());
   const particleSlotsSV = useSharedValue(createParticleSlots());
   const particlesClearedSV = useSharedValue(1);
@@ -691,20 +1359,68 @@ export function useLivelineEngine(input: EngineInput) {
   const isCandle = chartMode === "candle";
   const candleWidthSecs = candleWidthInput ?? 60;
 
+  // Without `candles`, candle mode buckets the points buffer itself on the
+  // UI thread, so the candles and the line morph always read the same
+  // source, streamed appends included. The live value closes the live
+  // bucket each frame.
+  const aggregating = isCandle && !candlesInput;
+  const candleAggSV = useSharedValue(createCandleAggregator());
+
   // Transfer candle data to UI thread atomically
+  const sessionCandles = useMemo(
+    () =>
+      resolvedSessions && candlesInput
+        ? candlesInput.map((c) => ({
+            ...c,
+            time: toSessionTime(c.time, resolvedSessions),
+          }))
+        : candlesInput,
+    [candlesInput, resolvedSessions],
+  );
+  const sessionLiveCandle = useMemo(
+    () =>
+      resolvedSessions && liveCandleInput
+        ? {
+            ...liveCandleInput,
+            time: toSessionTime(liveCandleInput.time, resolvedSessions),
+          }
+        : liveCandleInput,
+    [liveCandleInput, resolvedSessions],
+  );
   const candlesSV = useDerivedValue(
-    () => candlesInput ?? ([] as CandlePoint[]),
-    [candlesInput],
+    () => sessionCandles ?? ([] as CandlePoint[]),
+    [sessionCandles],
+  );
+  // Candles as drawn: Heikin-Ashi is derived once per `candles` change;
+  // the live candle is chained onto it per frame
+  const isHeikinAshi = candleStyle === "heikinAshi";
+  const ohlcBars = candleStyle === "ohlc";
+  const styledCandles = useMemo(
+    () =>
+      isHeikinAshi && sessionCandles
+        ? toHeikinAshi(sessionCandles)
+        : sessionCandles,
+    [isHeikinAshi, sessionCandles],
+  );
+  const styledCandlesSV = useDerivedValue(
+    () => styledCandles ?? ([] as CandlePoint[]),
+    [styledCandles],
   );
   const liveCandleSV = useDerivedValue(
-    () => liveCandleInput ?? null,
-    [liveCandleInput],
+    () => sessionLiveCandle ?? null,
+    [sessionLiveCandle],
   );
   const candleWidthSecsSV = useDerivedValue(
     () => candleWidthSecs,
     [candleWidthSecs],
   );
   const isCandleSV = useDerivedValue(() => (isCandle ? 1 : 0), [isCandle]);
+
+  // Bar mode: batched bars by sign, plus the live bar's rise-in
+  const barPositivePathSV = useSharedValue(Skia.Path.Make());
+  const barNegativePathSV = useSharedValue(Skia.Path.Make());
+  const barLiveTimeSV = useSharedValue(Number.NaN);
+  const barBirthSV = useSharedValue(1);
   const lineModeSV = useDerivedValue(
     () => (lineModeInput ? 1 : 0),
     [lineModeInput],
@@ -758,45 +1474,52 @@ export function useLivelineEngine(input: EngineInput) {
   const candleCrosshairCSV = useSharedValue("");
   const candleCrosshairTimeSV = useSharedValue("");
   const candleCrosshairBullSV = useSharedValue(1); // 1 = bull (green), 0 = bear (red)
+  const candleCrosshairVSV = useSharedValue(""); // empty when no volume
+  // Raw OHLC under a Heikin-Ashi candle; empty for the other styles
+  const candleCrosshairRawSV = useSharedValue("");
+
+  // Volume pane bars + smoothed visible max volume
+  const volumeBullPathSV = useSharedValue(Skia.Path.Make());
+  const volumeBearPathSV = useSharedValue(Skia.Path.Make());
+  const volumeMaxSV = useSharedValue(0);
 
   // ── Multi-series shared values ────────────────────────────────────
-  // Pre-allocate per-series paths + spline buffers for MAX_SERIES=8
-  const seriesPath0SV = useSharedValue(Skia.Path.Make());
-  const seriesPath1SV = useSharedValue(Skia.Path.Make());
-  const seriesPath2SV = useSharedValue(Skia.Path.Make());
-  const seriesPath3SV = useSharedValue(Skia.Path.Make());
-  const seriesPath4SV = useSharedValue(Skia.Path.Make());
-  const seriesPath5SV = useSharedValue(Skia.Path.Make());
-  const seriesPath6SV = useSharedValue(Skia.Path.Make());
-  const seriesPath7SV = useSharedValue(Skia.Path.Make());
-  const seriesPathSVs = [
-    seriesPath0SV,
-    seriesPath1SV,
-    seriesPath2SV,
-    seriesPath3SV,
-    seriesPath4SV,
-    seriesPath5SV,
-    seriesPath6SV,
-    seriesPath7SV,
-  ];
-  const seriesSpline0SV = useSharedValue(createSplineBuffer(256));
-  const seriesSpline1SV = useSharedValue(createSplineBuffer(256));
-  const seriesSpline2SV = useSharedValue(createSplineBuffer(256));
-  const seriesSpline3SV = useSharedValue(createSplineBuffer(256));
-  const seriesSpline4SV = useSharedValue(createSplineBuffer(256));
-  const seriesSpline5SV = useSharedValue(createSplineBuffer(256));
-  const seriesSpline6SV = useSharedValue(createSplineBuffer(256));
-  const seriesSpline7SV = useSharedValue(createSplineBuffer(256));
-  const seriesSplineSVs = [
-    seriesSpline0SV,
-    seriesSpline1SV,
-    seriesSpline2SV,
-    seriesSpline3SV,
-    seriesSpline4SV,
-    seriesSpline5SV,
-    seriesSpline6SV,
-    seriesSpline7SV,
-  ];
+  // Per-series paths + spline buffers, grown (never shrunk) to the series
+  // count. Created outside hooks so any number of series can be drawn.
+  // Worklets cache (and in dev freeze) the arrays they capture, so growing
+  // swaps in fresh arrays instead of pushing onto the captured ones.
+  const seriesPoolRef = useRef<{
+    paths: SharedValue<SkPath>[];
+    bandPaths: SharedValue<SkPath>[];
+    splines: SharedValue<SplineBuffer>[];
+  }>({ paths: [], bandPaths: [], splines: [] });
+  const seriesInputCount = isMultiSeriesInput ? (seriesInput?.length ?? 0) : 0;
+  if (seriesPoolRef.current.paths.length < seriesInputCount) {
+    const prev = seriesPoolRef.current;
+    const added = seriesInputCount - prev.paths.length;
+    seriesPoolRef.current = {
+      paths: [
+        ...prev.paths,
+        ...Array.from({ length: added }, () => makeMutable(Skia.Path.Make())),
+      ],
+      bandPaths: [
+        ...prev.bandPaths,
+        ...Array.from({ length: added }, () => makeMutable(Skia.Path.Make())),
+      ],
+      splines: [
+        ...prev.splines,
+        ...Array.from({ length: added }, () =>
+          makeMutable(createSplineBuffer(256)),
+        ),
+      ],
+    };
+  }
+  const seriesPool = seriesPoolRef.current;
+  const seriesPathSVs = seriesPool.paths;
+  // Filled band under each line when `seriesStack` is on
+  const seriesBandPathSVs = seriesPool.bandPaths;
+  const seriesSplineSVs = seriesPool.splines;
+  const stackScratchSV = useSharedValue(createStackScratch());
 
   interface SeriesSlot {
     active: number;
@@ -808,26 +1531,32 @@ export function useLivelineEngine(input: EngineInput) {
     label: string;
   }
 
-  const createSeriesSlots = (): SeriesSlot[] => {
-    const slots: SeriesSlot[] = [];
-    for (let i = 0; i < MAX_SERIES; i++) {
-      slots.push({
-        active: 0,
-        displayValue: 0,
-        alpha: 0,
-        dotX: 0,
-        dotY: 0,
-        color: "",
-        label: "",
-      });
-    }
-    return slots;
+  const createSeriesSlot = (): SeriesSlot => {
+    "worklet";
+    return {
+      active: 0,
+      displayValue: 0,
+      alpha: 0,
+      dotX: 0,
+      dotY: 0,
+      color: "",
+      label: "",
+    };
   };
 
-  const seriesSlotsSV = useSharedValue(createSeriesSlots());
+  // Grown on the UI thread as series are added
+  const seriesSlotsSV = useSharedValue<SeriesSlot[]>([]);
   const activeSeriesCountSV = useSharedValue(0);
   const multiCrosshairResultSV = useSharedValue(createMultiCrosshairResult());
   const multiSeriesRangeInitedSV = useSharedValue(0);
+  // Left value axis for series with `axis: "left"`
+  const leftRangeMinSV = useSharedValue(0);
+  const leftRangeMaxSV = useSharedValue(1);
+  const leftRangeInitedSV = useSharedValue(0);
+  const leftGridIntervalSV = useSharedValue(0);
+  const leftGridSlotsSV = useSharedValue(createGridSlots());
+  const leftGridScratchSV = useSharedValue(createGridScratch());
+  const leftGridResultSV = useSharedValue(createGridResult());
 
   // Pack series data into per-series Float64Arrays for UI thread transfer
   const packedSeriesData = useMemo(() => {
@@ -837,21 +1566,38 @@ export function useLivelineEngine(input: EngineInput) {
     const colors: string[] = [];
     const labels: string[] = [];
     const values: number[] = [];
-    for (let i = 0; i < Math.min(seriesInput.length, MAX_SERIES); i++) {
+    const axes: number[] = [];
+    for (let i = 0; i < seriesInput.length; i++) {
       const s = seriesInput[i];
-      const packed = packPoints(s.data);
+      const packed = packPoints(
+        s.data,
+        {
+          maxPoints: retentionMaxPoints,
+          maxAgeSecs: retentionMaxAgeSecs,
+          decimate: retentionDecimate,
+        },
+        resolvedSessions,
+      );
       // Append live value at end like main buffer
       const buf = new Float64Array(packed.buf.length + 1);
       buf.set(packed.buf);
       buf[packed.buf.length] = s.value;
       buffers.push(buf);
       counts.push(packed.count);
-      colors.push(s.color);
+      colors.push(s.color ?? seriesColor(i));
       labels.push(s.label ?? "");
       values.push(s.value);
+      axes.push(s.axis === "left" ? 1 : 0);
     }
-    return { buffers, counts, colors, labels, values };
-  }, [isMultiSeriesInput, seriesInput]);
+    return { buffers, counts, colors, labels, values, axes };
+  }, [
+    isMultiSeriesInput,
+    seriesInput,
+    retentionMaxPoints,
+    retentionMaxAgeSecs,
+    retentionDecimate,
+    resolvedSessions,
+  ]);
 
   const seriesBuffersSV = useDerivedValue(
     () => packedSeriesData?.buffers ?? [],
@@ -873,6 +1619,11 @@ export function useLivelineEngine(input: EngineInput) {
     () => packedSeriesData?.values ?? [],
     [packedSeriesData],
   );
+  // 1 = left value axis, 0 = right
+  const seriesAxesSV = useDerivedValue(
+    () => packedSeriesData?.axes ?? [],
+    [packedSeriesData],
+  );
   const isMultiSeriesSV = useDerivedValue(
     () => (isMultiSeriesInput ? 1 : 0),
     [isMultiSeriesInput],
@@ -890,12 +1641,81 @@ export function useLivelineEngine(input: EngineInput) {
 
   // Series IDs for looking up hidden state on the UI thread
   const seriesIdArr = useMemo(
-    () =>
-      seriesInput ? seriesInput.slice(0, MAX_SERIES).map((s) => s.id) : [],
+    () => (seriesInput ? seriesInput.map((s) => s.id) : []),
     [seriesInput],
   );
   const seriesIdsSV = useDerivedValue(() => seriesIdArr, [seriesIdArr]);
 
+  // ── Indicator overlays ────────────────────────────────────────────
+  const indicatorSpecs = useMemo(
+    () => resolveIndicatorSpecs(indicatorsInput),
+    [indicatorsInput],
+  );
+  const indicatorSpecsSV = useDerivedValue(
+    () => indicatorSpecs,
+    [indicatorSpecs],
+  );
+  const indicatorStateSV = useSharedValue(createIndicatorState());
+  const indicatorsClearedSV = useSharedValue(1);
+  // Per-slot paths for MAX_INDICATORS=4: main line + Bollinger bands
+  const indicatorPath0SV = useSharedValue(Skia.Path.Make());
+  const indicatorPath1SV = useSharedValue(Skia.Path.Make());
+  const indicatorPath2SV = useSharedValue(Skia.Path.Make());
+  const indicatorPath3SV = useSharedValue(Skia.Path.Make());
+  const indicatorBandPath0SV = useSharedValue(Skia.Path.Make());
+  const indicatorBandPath1SV = useSharedValue(Skia.Path.Make());
+  const indicatorBandPath2SV = useSharedValue(Skia.Path.Make());
+  const indicatorBandPath3SV = useSharedValue(Skia.Path.Make());
+  const indicatorPathSVs = [
+    indicatorPath0SV,
+    indicatorPath1SV,
+    indicatorPath2SV,
+    indicatorPath3SV,
+  ];
+  const indicatorBandPathSVs = [
+    indicatorBandPath0SV,
+    indicatorBandPath1SV,
+    indicatorBandPath2SV,
+    indicatorBandPath3SV,
+  ];
+  const indicatorCrosshairTextsSV = useSharedValue<string[]>(
+    new Array(MAX_INDICATORS).fill(""),
+  );
+
+  // ── Oscillator pane ───────────────────────────────────────────────
+  const oscillatorSpec = useMemo(
+    () => resolveOscillatorSpec(oscillatorInput),
+    [
+      oscillatorInput?.type,
+      oscillatorInput?.period,
+      oscillatorInput?.fast,
+      oscillatorInput?.slow,
+      oscillatorInput?.signal,
+    ],
+  );
+  const oscillatorSpecSV = useDerivedValue(
+    () => oscillatorSpec,
+    [oscillatorSpec],
+  );
+  const oscillatorStateSV = useSharedValue(createOscillatorState());
+  const oscillatorClearedSV = useSharedValue(1);
+  const oscRangeMinSV = useSharedValue(0);
+  const oscRangeMaxSV = useSharedValue(100);
+  const oscRangeInitedSV = useSharedValue(0);
+  const oscLinePathSV = useSharedValue(Skia.Path.Make());
+  const oscSignalPathSV = useSharedValue(Skia.Path.Make());
+  const oscHistUpPathSV = useSharedValue(Skia.Path.Make());
+  const oscHistDownPathSV = useSharedValue(Skia.Path.Make());
+  const oscGuidePathSV = useSharedValue(Skia.Path.Make());
+  const oscBandPathSV = useSharedValue(Skia.Path.Make());
+  const oscReadoutSV = useSharedValue("");
+  const oscGridSlotsSV = useSharedValue(
+    createGridSlots(MAX_OSCILLATOR_GRID_LABELS),
+  );
+  const oscGridIntervalSV = useSharedValue(0);
+  const oscGridResultSV = useSharedValue(createGridResult());
+  const oscGridScratchSV = useSharedValue(createGridScratch());
+
   // Line morph transition refs (stored in shared values for worklet access)
   const lineMorphStartMsSV = useSharedValue(0);
   const lineMorphFromSV = useSharedValue(0);
@@ -907,6 +1727,71 @@ export function useLivelineEngine(input: EngineInput) {
   const referencePathSV = useSharedValue(Skia.Path.Make());
   const referenceLabelYSV = useSharedValue(-1000);
   const referenceLabelOpacitySV = useSharedValue(0);
+
+  // Styled reference lines + price bands (positions only; styling stays in
+  // Liveline.tsx)
+  const referenceLineValues = useMemo(
+    () => (referenceLinesInput ?? []).map((line) => line.value),
+    [referenceLinesInput],
+  );
+  const referenceLineValuesSV = useDerivedValue(
+    () => referenceLineValues,
+    [referenceLineValues],
+  );
+  const bandEdges = useMemo(() => {
+    const bands = bandsInput ?? [];
+    return {
+      froms: bands.map((band) => band.from),
+      tos: bands.map((band) => band.to),
+    };
+  }, [bandsInput]);
+  const bandEdgesSV = useDerivedValue(() => bandEdges, [bandEdges]);
+  const referenceLineSlotsSV = useSharedValue(
+    createReferenceLineSlots(referenceLineValues.length),
+  );
+  const priceBandSlotsSV = useSharedValue(
+    createPriceBandSlots(bandEdges.froms.length),
+  );
+
+  // Event markers (positions only; glyph shape + color live in Liveline.tsx)
+  const markerOrder = useMemo<MarkerOrder>(() => {
+    const entries = (markersInput ?? [])
+      .map((marker, index) => ({
+        t: toSessionTime(marker.time, resolvedSessions),
+        index,
+      }))
+      .filter((entry) => Number.isFinite(entry.t))
+      .sort((a, b) => b.t - a.t);
+    return {
+      times: entries.map((entry) => entry.t),
+      indices: entries.map((entry) => entry.index),
+    };
+  }, [markersInput, resolvedSessions]);
+  const markerOrderSV = useDerivedValue(() => markerOrder, [markerOrder]);
+  const markerSlotsSV = useSharedValue(createMarkerSlots());
+
+  // Time regions (edges only; colors + labels live in Liveline.tsx)
+  const timeRegionOrder = useMemo<TimeRegionOrder>(() => {
+    const entries = (timeRegionsInput ?? [])
+      .map((region, index) => {
+        const from = toSessionTime(region.from, resolvedSessions);
+        const rawTo = toSessionTime(region.to ?? NaN, resolvedSessions);
+        const to = Number.isFinite(rawTo) ? rawTo : from;
+        return { lo: Math.min(from, to), hi: Math.max(from, to), index };
+      })
+      .filter((entry) => Number.isFinite(entry.lo))
+      .sort((a, b) => b.hi - a.hi);
+    return {
+      froms: entries.map((entry) => entry.lo),
+      tos: entries.map((entry) => entry.hi),
+      indices: entries.map((entry) => entry.index),
+    };
+  }, [timeRegionsInput, resolvedSessions]);
+  const timeRegionOrderSV = useDerivedValue(
+    () => timeRegionOrder,
+    [timeRegionOrder],
+  );
+  const timeRegionSlotsSV = useSharedValue(createTimeRegionSlots());
   const hoverLinePathSV = useSharedValue(Skia.Path.Make());
   const arrowUpChevron0SV = useSharedValue(Skia.Path.Make());
   const arrowUpChevron1SV = useSharedValue(Skia.Path.Make());
@@ -919,6 +1804,10 @@ export function useLivelineEngine(input: EngineInput) {
       "worklet";
       if (typeof momentumOverride === "string") return momentumOverride;
       if (!showMomentum) return "flat" as const;
+      const streamCount = streamCountSV.value;
+      if (streamCount > 0) {
+        return detectMomentumFromPoints(streamBufSV.value, streamCount);
+      }
       const buf = pointsBufSV.value;
       const count = buf.length > 0 ? (buf.length - 1) / 2 : 0;
       return detectMomentumFromPoints(buf, count);
@@ -957,6 +1846,12 @@ export function useLivelineEngine(input: EngineInput) {
     if (width <= 0 || height <= 0) {
       rewindPath(linePathSV);
       rewindPath(fillPathSV);
+      rewindPath(barPositivePathSV);
+      rewindPath(barNegativePathSV);
+      rewindPath(heatmapPath0SV);
+      rewindPath(heatmapPath1SV);
+      rewindPath(heatmapPath2SV);
+      rewindPath(heatmapPath3SV);
       rewindPath(oldLinePathSV);
       rewindPath(oldFillPathSV);
       rewindPath(currentLinePathSV);
@@ -1015,7 +1910,8 @@ export function useLivelineEngine(input: EngineInput) {
       ratio,
     );
 
-    const hasInputDataNow = hasInputDataSV.value > 0.5;
+    const hasInputDataNow =
+      hasInputDataSV.value > 0.5 || streamCountSV.value > 0;
     const revealTarget = !effectiveShowLoadingState && hasInputDataNow ? 1 : 0;
     chartRevealSV.value = alphaLerp(
       chartRevealSV.value,
@@ -1051,8 +1947,7 @@ export function useLivelineEngine(input: EngineInput) {
     if (isMultiNow) {
       const labels = seriesLabelsSV.value;
       let maxLabelW = 0;
-      const labelCount = Math.min(MAX_SERIES, labels.length);
-      for (let i = 0; i < labelCount; i += 1) {
+      for (let i = 0; i < labels.length; i += 1) {
         const label = labels[i];
         if (!label) continue;
         const labelW = estimateTextWidthMonospace(label, seriesLabelCharWidth);
@@ -1067,6 +1962,12 @@ export function useLivelineEngine(input: EngineInput) {
       width - padding.left - padding.right - labelReserve,
     );
     const innerHeight = Math.max(1, height - padding.top - padding.bottom);
+    // Level-of-detail scratch must hold the worst case for this plot width
+    const lodNeeded = (Math.ceil(innerWidth) + 4) * 2;
+    if (lodBufferSV.value.length < lodNeeded) {
+      lodBufferSV.value = new Float64Array(lodNeeded);
+    }
+    const lodBuffer = lodBufferSV.value;
 
     // Cap wall-time advance to match the dt cap (50ms) so X-axis and
     // Y-axis lerps stay in lockstep during Hermes GC pauses. Without this,
@@ -1088,14 +1989,39 @@ export function useLivelineEngine(input: EngineInput) {
     // Cosmetic animations use raw wall time — no need to cap
     loadingBreathSV.value = loadingBreath(nowRawMs);
 
-    const pts = pointsBufSV.value;
+    // An active stream (appendPoints) supersedes the packed `data` buffer.
+    const streamCount = streamCountSV.value;
+    const pts = streamCount > 0 ? streamBufSV.value : pointsBufSV.value;
     // Derive count from buffer length (not a separate shared value) so
     // it's always in sync with the buffer contents on the same frame.
     // Buffer layout: [t0,v0, ..., tN,vN, liveValue] → count = (len - 1) / 2
-    const ptsCount = pts.length > 0 ? (pts.length - 1) / 2 : 0;
+    const ptsCount =
+      streamCount > 0 ? streamCount : pts.length > 0 ? (pts.length - 1) / 2 : 0;
     // Live value is appended as the last element of the packed buffer,
     // after the (t,v) pairs, so it transfers atomically with the points.
     const liveValue = pts.length > 0 ? pts[ptsCount * 2] : 0;
+    const candleAgg = candleAggSV.value;
+    if (
+      aggregating &&
+      updateCandleAggregator(
+        candleAgg,
+        pts,
+        ptsCount,
+        historySeqSV.value,
+        streamCount > 0 ? streamBaseSV.value : 0,
+        candleWidthSecsSV.value,
+        timeZoneSV.value,
+        sessionsSV.value,
+      )
+    ) {
+      candleAggSV.modify(undefined, true);
+    }
+    const candlesNow = aggregating ? candleAgg.candles : candlesSV.value;
+    const liveCandleNow =
+      liveCandleSV.value ??
+      (aggregating && candleAgg.live
+        ? withLiveClose(candleAgg.live, liveValue)
+        : null);
     if (ptsCount === 0) {
       const r = Math.round(liveValue * 1e6) / 1e6;
       if (r !== prevRoundedValueSV.value) {
@@ -1118,6 +2044,12 @@ export function useLivelineEngine(input: EngineInput) {
       shakeYSV.value = 0;
       rewindPath(linePathSV);
       rewindPath(fillPathSV);
+      rewindPath(barPositivePathSV);
+      rewindPath(barNegativePathSV);
+      rewindPath(heatmapPath0SV);
+      rewindPath(heatmapPath1SV);
+      rewindPath(heatmapPath2SV);
+      rewindPath(heatmapPath3SV);
       rewindPath(oldLinePathSV);
       rewindPath(oldFillPathSV);
       rewindPath(currentLinePathSV);
@@ -1133,7 +2065,8 @@ export function useLivelineEngine(input: EngineInput) {
     }
 
     const nowMs = cappedNowMs - timeDebtMsSV.value;
-    const nowSec = nowMs / 1000;
+    // Outside trading hours the live edge parks at the last close
+    const nowSec = toSessionTime(nowMs / 1000, sessionsSV.value);
 
     const keyChanged = dataTransitionKeySV.value !== prevDataTransitionKeySV.value;
     const lineDataTransitionEnabled =
@@ -1224,6 +2157,27 @@ export function useLivelineEngine(input: EngineInput) {
     }
     const windowSecsNow = Math.max(1, displayWindowSecsSV.value);
 
+    // Programmatic scroll (scrollToTime) — ease the offset toward target
+    const scrollTarget = scrollTargetSVInput ? scrollTargetSVInput.value : NaN;
+    if (
+      scrollTargetSVInput &&
+      domainOffsetSVInput &&
+      !Number.isNaN(scrollTarget)
+    ) {
+      domainOffsetSVInput.value = alphaLerp(
+        domainOffsetSVInput.value,
+        scrollTarget,
+        SCROLL_TO_LERP_SPEED,
+        ratio,
+      );
+      if (
+        Math.abs(domainOffsetSVInput.value - scrollTarget) < SCROLL_TO_SNAP_SECS
+      ) {
+        domainOffsetSVInput.value = scrollTarget;
+        scrollTargetSVInput.value = NaN;
+      }
+    }
+
     // Momentum decay — exponential velocity decay + offset integration
     if (
       panVelocitySVInput &&
@@ -1239,7 +2193,7 @@ export function useLivelineEngine(input: EngineInput) {
     }
 
     // Snap-back-to-live when close to 0 with no momentum
-    if (domainOffsetSVInput && isLiveSVInput) {
+    if (domainOffsetSVInput && isLiveSVInput && Number.isNaN(scrollTarget)) {
       const vel = panVelocitySVInput ? panVelocitySVInput.value : 0;
       if (
         domainOffsetSVInput.value > -SNAP_BACK_THRESHOLD_SECS &&
@@ -1266,6 +2220,8 @@ export function useLivelineEngine(input: EngineInput) {
 
     const rightEdge = domainTarget + windowSecsNow * bufferRatio;
     const start = rightEdge - windowSecsNow;
+    visibleStartSecSV.value = start;
+    visibleEndSecSV.value = rightEdge;
     const filterRight = rightEdge - (rightEdge - domainTarget) * pauseProgress;
 
     // Include 2 seconds of left overscan, matching the web version
@@ -1329,6 +2285,18 @@ export function useLivelineEngine(input: EngineInput) {
 
     const isCandleNow = isCandleSV.value > 0.5;
 
+    // Gutter drags (and their reset) move the range without lerping
+    const yStretch = yStretchSVInput ? yStretchSVInput.value : 1;
+    if (yStretch !== appliedYStretchSV.value) {
+      appliedYStretchSV.value = yStretch;
+      rangeInitedSV.value = 0;
+      if (isCandleNow) candleRangeInitedSV.value = 0;
+      if (isMultiNow) {
+        multiSeriesRangeInitedSV.value = 0;
+        leftRangeInitedSV.value = 0;
+      }
+    }
+
     const rangeOut = rangeScratchSV.value;
     computeRangeFromVisible(
       rangeOut,
@@ -1339,6 +2307,16 @@ export function useLivelineEngine(input: EngineInput) {
       curDisplay,
       referenceValue,
       exaggerate,
+      logScale,
+    );
+    // Bars grow from zero, so the baseline is always in range
+    constrainRange(
+      rangeOut,
+      domainMin,
+      domainMax,
+      includeZero || isBar,
+      yStretch,
+      logScale,
     );
 
     let nextRangeMin: number;
@@ -1384,9 +2362,14 @@ export function useLivelineEngine(input: EngineInput) {
 
     const spanX = Math.max(1e-6, rightEdge - start);
     const liveX = padding.left + ((domainTarget - start) / spanX) * innerWidth;
-    const liveY =
-      padding.top +
-      (1 - (curDisplay - rangeMin) / Math.max(rangeSpan, 1e-6)) * innerHeight;
+    const liveY = valueToY(
+      curDisplay,
+      rangeMin,
+      rangeSpan,
+      padding.top,
+      innerHeight,
+      logScale,
+    );
 
     // Clamp to chart bounds — matches web clampY(toY(smoothValue)).
     // During fast value changes the display value can outpace the range
@@ -1464,6 +2447,13 @@ export function useLivelineEngine(input: EngineInput) {
       firstClamped >= 0 && firstClamped < ptsCount
         ? ptV(pts, firstClamped)
         : curDisplay;
+    const valueScale = valueScaleSV.value;
+    valueScale.log = logScale;
+    valueScale.percentBase = !percentScale
+      ? Number.NaN
+      : isMultiNow
+        ? 100
+        : baselineValue;
     const shownValue =
       valueDisplayMode === "hover" && hoverActiveSV.value
         ? hoverValueSV.value
@@ -1512,6 +2502,7 @@ export function useLivelineEngine(input: EngineInput) {
         prevChangeSignSV.value = changeSign;
         changeSignSV.value = changeSign;
         const absChangeText = formatWorkletValue(formatValueWorklet, roundedChange);
+        const localeNow = localeSV.value;
         const signedAbsChangeText =
           changeSign > 0
             ? `+${absChangeText}`
@@ -1521,10 +2512,10 @@ export function useLivelineEngine(input: EngineInput) {
         if (hasChangePct) {
           const signedPctText =
             changeSign > 0
-              ? `+${formatPercentWorklet(roundedChangePct)}`
+              ? `+${formatPercentWorklet(roundedChangePct, localeNow)}`
               : changeSign < 0
-                ? `-${formatPercentWorklet(roundedChangePct)}`
-                : formatPercentWorklet(roundedChangePct);
+                ? `-${formatPercentWorklet(roundedChangePct, localeNow)}`
+                : formatPercentWorklet(roundedChangePct, localeNow);
           changeTextSV.value = `${signedAbsChangeText} (${signedPctText})`;
         } else {
           changeTextSV.value = signedAbsChangeText;
@@ -1605,7 +2596,9 @@ export function useLivelineEngine(input: EngineInput) {
         padding.bottom,
         ratio,
         gridTimeReveal,
-        formatValueWorklet,
+        stackShare ? formatStackShareWorklet : formatValueWorklet,
+        valueScale,
+        localeSV.value,
         gridScratchSV.value,
         gridOut,
       );
@@ -1634,12 +2627,19 @@ export function useLivelineEngine(input: EngineInput) {
         formatTimeWorklet,
         formatAxisTimeWorklet,
         resolvedAxisTimeFormatPreset,
+        timeZoneSV.value,
+        localeSV.value,
+        sessionsSV.value,
         timeScratchSV.value,
       )
     ) {
       timeSlotsSV.modify(undefined, true);
     }
 
+    // Hover time the crosshair resolved to (session seconds), so the
+    // indicator readout reads the same point; NaN when not hovering
+    let crosshairTimeSecs = NaN;
+
     // Candle mode check (used by crosshair and candle pipeline below)
     // Single-series / line-mode crosshair (skip in candle mode — candle pipeline handles it)
     if (!isCandleNow) {
@@ -1649,10 +2649,14 @@ export function useLivelineEngine(input: EngineInput) {
           hoverXSV.value,
           pts,
           ptsCount,
+          isBar ? candleWidthSecs : 0,
+          // The live bar as drawn (see buildBarPaths)
+          curDisplay * barBirthSV.value,
           start,
           windowSecsNow,
           rangeMin,
           rangeSpan,
+          valueScale,
           padding.left,
           padding.top,
           innerWidth,
@@ -1663,11 +2667,15 @@ export function useLivelineEngine(input: EngineInput) {
           formatTimeWorklet,
           formatCrosshairTimeWorklet,
           resolvedCrosshairTimeFormatPreset,
+          timeZoneSV.value,
+          localeSV.value,
+          sessionsSV.value,
           ch,
         );
 
         hoverXSV.value = ch.hx;
         hoverTimeSecSV.value = ch.ht;
+        crosshairTimeSecs = ch.ht;
         hoverValueSV.value = ch.hv;
         hoverYSV.value = ch.hy;
         hoverValueTextSV.value = ch.valueText;
@@ -1736,6 +2744,7 @@ export function useLivelineEngine(input: EngineInput) {
           innerHeight,
           dt,
           swingMagnitude,
+          orderbookOptions,
         );
         orderbookStateSV.modify(undefined, true);
         orderbookLabelsSV.modify(undefined, true);
@@ -1815,6 +2824,11 @@ export function useLivelineEngine(input: EngineInput) {
       if (shakeYSV.value !== 0) shakeYSV.value = 0;
     }
 
+    // Value range overlays (indicators) map against: the line range, or
+    // the candle range blended toward it during the line morph.
+    let overlayRangeMin = rangeMin;
+    let overlayRangeSpan = rangeSpan;
+
     // ── Candle mode pipeline ──────────────────────────────────────────
     // Rewind all candle paths each frame
     const rewindCandle = () => {
@@ -1824,13 +2838,23 @@ export function useLivelineEngine(input: EngineInput) {
       candleBearWickPathSV.value.rewind();
       candleLiveGlowPathSV.value.rewind();
       closePricePathSV.value.rewind();
+      volumeBullPathSV.value.rewind();
+      volumeBearPathSV.value.rewind();
     };
 
     if (isCandleNow) {
       rewindCandle();
 
-      const candlesData = candlesSV.value;
-      const rawLive = liveCandleSV.value;
+      const candlesData = !aggregating
+        ? styledCandlesSV.value
+        : isHeikinAshi
+          ? candleAgg.heikinAshi
+          : candleAgg.candles;
+      const styleLive = (c: CandlePoint): CandlePoint => {
+        "worklet";
+        return isHeikinAshi ? heikinAshiLive(candlesData, c) : c;
+      };
+      const rawLive = liveCandleNow;
       const cWidthSecs = candleWidthSecsSV.value;
 
       // Line mode morph transition
@@ -1901,6 +2925,7 @@ export function useLivelineEngine(input: EngineInput) {
             high: rawLive.open,
             low: rawLive.open,
             close: rawLive.open,
+            volume: rawLive.volume === undefined ? undefined : 0,
           };
           liveBirthAlphaSV.value = 0;
         } else {
@@ -1915,6 +2940,14 @@ export function useLivelineEngine(input: EngineInput) {
             CANDLE_LERP_SPEED,
             ratio,
           );
+          if (rawLive.volume !== undefined) {
+            dc.volume = alphaLerp(
+              dc.volume ?? 0,
+              rawLive.volume,
+              CANDLE_LERP_SPEED,
+              ratio,
+            );
+          }
           displayCandleSV.modify(undefined, true);
         }
 
@@ -1927,7 +2960,7 @@ export function useLivelineEngine(input: EngineInput) {
         );
 
         // Bull/bear blend
-        const dc = displayCandleSV.value!;
+        const dc = styleLive(displayCandleSV.value!);
         const bullTarget = dc.close >= dc.open ? 1 : 0;
         liveBullBlendSV.value = alphaLerp(
           liveBullBlendSV.value,
@@ -1954,7 +2987,8 @@ export function useLivelineEngine(input: EngineInput) {
       }
 
       // Filter visible candles
-      const displayLive = displayCandleSV.value;
+      const rawDisplayLive = displayCandleSV.value;
+      const displayLive = rawDisplayLive ? styleLive(rawDisplayLive) : null;
       const visibleCandles: CandlePoint[] = [];
       for (let i = 0; i < candlesData.length; i++) {
         const c = candlesData[i];
@@ -1972,7 +3006,15 @@ export function useLivelineEngine(input: EngineInput) {
 
       // Compute candle range (from OHLC high/low, not just close)
       if (visibleCandles.length > 0) {
-        const candleRange = computeCandleRange(visibleCandles);
+        const candleRange = computeCandleRange(visibleCandles, logScale);
+        constrainRange(
+          candleRange,
+          domainMin,
+          domainMax,
+          includeZero,
+          yStretch,
+          logScale,
+        );
 
         if (candleRangeInitedSV.value === 0) {
           candleRangeMinSV.value = candleRange.min;
@@ -2016,7 +3058,15 @@ export function useLivelineEngine(input: EngineInput) {
         }
         if (displayLive) targetVis.push(displayLive);
         if (targetVis.length > 0) {
-          const tr = computeCandleRange(targetVis);
+          const tr = computeCandleRange(targetVis, logScale);
+          constrainRange(
+            tr,
+            domainMin,
+            domainMax,
+            includeZero,
+            yStretch,
+            logScale,
+          );
           candleWidthNewRangeMinSV.value = tr.min;
           candleWidthNewRangeMaxSV.value = tr.max;
         }
@@ -2031,6 +3081,8 @@ export function useLivelineEngine(input: EngineInput) {
       }
 
       const cRangeSpan = Math.max(1e-6, cRangeMax - cRangeMin);
+      overlayRangeMin = cRangeMin + (rangeMin - cRangeMin) * lineModeProg;
+      overlayRangeSpan = cRangeSpan + (rangeSpan - cRangeSpan) * lineModeProg;
 
       // Build candle paths (new width)
       const pathResult: CandlePathResult = {
@@ -2054,12 +3106,48 @@ export function useLivelineEngine(input: EngineInput) {
         rightEdge,
         cRangeMin,
         cRangeSpan,
+        logScale,
         displayLive?.time ?? -1,
         liveBirthAlphaSV.value,
         lineModeProg,
         chartReveal,
+        ohlcBars,
       );
 
+      // Volume pane: bars share the candle x positions, scaled to the
+      // smoothed max volume of the visible candles
+      if (volumePaneHeight > 0) {
+        const visibleMaxVolume = maxCandleVolume(visibleCandles);
+        if (visibleMaxVolume > 0) {
+          volumeMaxSV.value =
+            volumeMaxSV.value > 0
+              ? alphaLerp(
+                  volumeMaxSV.value,
+                  visibleMaxVolume,
+                  CANDLE_RANGE_LERP_SPEED,
+                  ratio,
+                )
+              : visibleMaxVolume;
+        }
+        const paneTop = height - padding.bottom + SUB_PANE_GAP;
+        buildVolumePaths(
+          {
+            bullBars: volumeBullPathSV.value,
+            bearBars: volumeBearPathSV.value,
+          },
+          visibleCandles,
+          displayCandleWidth,
+          innerWidth,
+          padding.left,
+          paneTop,
+          Math.max(0, volumePaneHeight - SUB_PANE_GAP),
+          start,
+          rightEdge,
+          volumeMaxSV.value,
+          chartReveal,
+        );
+      }
+
       // Build old candle paths during width morph (cross-fade)
       oldCandleBullPathSV.value.reset();
       oldCandleBearPathSV.value.reset();
@@ -2094,10 +3182,12 @@ export function useLivelineEngine(input: EngineInput) {
           rightEdge,
           cRangeMin,
           cRangeSpan,
+          logScale,
           -1, // no live candle in old paths
           0,
           lineModeProg,
           chartReveal,
+          ohlcBars,
         );
       }
 
@@ -2120,6 +3210,8 @@ export function useLivelineEngine(input: EngineInput) {
           if (hovered) {
             const ht =
               start + ((hx - padding.left) / innerWidth) * windowSecsNow;
+            // Indicator points sit at candle centers (loadIndicatorCandles)
+            crosshairTimeSecs = hovered.time + candleWidthSecsSV.value / 2;
             const isLineModeCrosshair = lineModeProg > 0.5;
 
             candleCrosshairOSV.value = formatWorkletValue(
@@ -2140,9 +3232,37 @@ export function useLivelineEngine(input: EngineInput) {
               isLineModeCrosshair ? lineModeValue : hovered.close,
             );
             candleCrosshairBullSV.value = hovered.close >= hovered.open ? 1 : 0;
+            candleCrosshairVSV.value =
+              volumePaneHeight > 0 && hovered.volume !== undefined
+                ? formatVolume(hovered.volume)
+                : "";
+            const raw = !isHeikinAshi
+              ? null
+              : rawDisplayLive && hovered.time === rawDisplayLive.time
+                ? rawDisplayLive
+                : candleAtX(
+                    candlesNow,
+                    hx,
+                    displayCandleWidth,
+                    innerWidth,
+                    padding.left,
+                    start,
+                    rightEdge,
+                  );
+            candleCrosshairRawSV.value = raw
+              ? "O " +
+                formatWorkletValue(formatValueWorklet, raw.open) +
+                "  H " +
+                formatWorkletValue(formatValueWorklet, raw.high) +
+                "  L " +
+                formatWorkletValue(formatValueWorklet, raw.low) +
+                "  C " +
+                formatWorkletValue(formatValueWorklet, raw.close)
+              : "";
 
             // Time text
-            const tMs = ht * 1000;
+            const htReal = fromSessionTime(ht, sessionsSV.value);
+            const tMs = htReal * 1000;
             candleCrosshairTimeSV.value = formatCrosshairTimeWorklet
               ? formatCrosshairTimeWorklet(tMs, windowSecsNow)
               : formatTimeWorklet
@@ -2151,6 +3271,8 @@ export function useLivelineEngine(input: EngineInput) {
                     tMs,
                     windowSecsNow,
                     resolvedCrosshairTimeFormatPreset,
+                    timeZoneSV.value,
+                    localeSV.value,
                   );
 
             // Keep dot/horizontal crosshair on the same rendered curve:
@@ -2160,16 +3282,20 @@ export function useLivelineEngine(input: EngineInput) {
               : hovered.close;
             // Keep hover readout state in sync in candle mode so
             // valueDisplayMode="hover" uses the hovered candle value.
-            hoverTimeSecSV.value = ht;
+            hoverTimeSecSV.value = htReal;
             hoverValueSV.value = crosshairValue;
             const crosshairMin = isLineModeCrosshair ? rangeMin : cRangeMin;
             const crosshairSpan = isLineModeCrosshair
               ? Math.max(rangeSpan, 1e-6)
               : cRangeSpan;
-            hoverYSV.value =
-              padding.top +
-              (1 - (crosshairValue - crosshairMin) / crosshairSpan) *
-                innerHeight;
+            hoverYSV.value = valueToY(
+              crosshairValue,
+              crosshairMin,
+              crosshairSpan,
+              padding.top,
+              innerHeight,
+              logScale,
+            );
 
             const out: HoverPoint = {
               x: hx,
@@ -2228,6 +3354,8 @@ export function useLivelineEngine(input: EngineInput) {
       candleBearWickPathSV.modify(undefined, true);
       candleLiveGlowPathSV.modify(undefined, true);
       closePricePathSV.modify(undefined, true);
+      volumeBullPathSV.modify(undefined, true);
+      volumeBearPathSV.modify(undefined, true);
     } else {
       // Not candle mode — reset candle state
       if (candleRangeInitedSV.value !== 0) {
@@ -2238,6 +3366,9 @@ export function useLivelineEngine(input: EngineInput) {
         candleBearWickPathSV.modify(undefined, true);
         candleLiveGlowPathSV.modify(undefined, true);
         closePricePathSV.modify(undefined, true);
+        volumeBullPathSV.modify(undefined, true);
+        volumeBearPathSV.modify(undefined, true);
+        volumeMaxSV.value = 0;
         candleRangeInitedSV.value = 0;
         lineModeProgressSV.value = 0;
         smoothCloseInitedSV.value = 0;
@@ -2245,6 +3376,200 @@ export function useLivelineEngine(input: EngineInput) {
       }
     }
 
+    // ── Indicator overlays ─────────────────────────────────────────────
+    const indicatorSpecsNow = indicatorSpecsSV.value;
+    const oscSpecNow = oscillatorSpecSV.value;
+    const indicatorSource = indicatorStateSV.value;
+    const hasOscillator = !!oscSpecNow && oscillatorPaneHeight > 0;
+    // Overlays and the oscillator pane share one source load per frame
+    if (!isMultiNow && (indicatorSpecsNow.length > 0 || hasOscillator)) {
+      if (isCandleNow) {
+        loadIndicatorCandles(
+          indicatorSource,
+          candlesNow,
+          liveCandleNow,
+          candleWidthSecsSV.value,
+        );
+      } else {
+        // Skip a retention-folded head: its min/max envelope isn't the
+        // series the indicators average
+        loadIndicatorPoints(
+          indicatorSource,
+          pts,
+          streamCount > 0 ? streamEnvelopeSV.value : pointsEnvelopeSV.value,
+          ptsCount,
+        );
+      }
+    }
+    const indicatorHoverActive = hoverActiveSV.value || scrubAmountSV.value > 0;
+    const indicatorHoverX = clamp(
+      hoverXSV.value,
+      padding.left,
+      padding.left + innerWidth,
+    );
+    const indicatorHoverT = Number.isNaN(crosshairTimeSecs)
+      ? start + ((indicatorHoverX - padding.left) / innerWidth) * windowSecsNow
+      : crosshairTimeSecs;
+    if (indicatorSpecsNow.length > 0 && !isMultiNow) {
+      indicatorsClearedSV.value = 0;
+      const state = indicatorSource;
+      updateIndicatorValues(state, indicatorSpecsNow);
+
+      for (let i = 0; i < MAX_INDICATORS; i++) {
+        const path = indicatorPathSVs[i].value;
+        const bandPath = indicatorBandPathSVs[i].value;
+        path.rewind();
+        bandPath.rewind();
+        buildIndicatorPaths(
+          state,
+          i,
+          path,
+          bandPath,
+          start,
+          rightEdge,
+          padding.left,
+          padding.top,
+          innerWidth,
+          innerHeight,
+          overlayRangeMin,
+          overlayRangeSpan,
+          logScale,
+        );
+        indicatorPathSVs[i].modify(undefined, true);
+        indicatorBandPathSVs[i].modify(undefined, true);
+      }
+
+      if (indicatorHoverActive) {
+        if (
+          updateIndicatorCrosshair(
+            state,
+            indicatorHoverT,
+            formatValueWorklet,
+            indicatorCrosshairTextsSV.value,
+          )
+        ) {
+          indicatorCrosshairTextsSV.modify(undefined, true);
+        }
+      }
+    } else if (indicatorsClearedSV.value === 0) {
+      indicatorsClearedSV.value = 1;
+      for (let i = 0; i < MAX_INDICATORS; i++) {
+        rewindPath(indicatorPathSVs[i]);
+        rewindPath(indicatorBandPathSVs[i]);
+      }
+    }
+
+    // ── Oscillator pane ────────────────────────────────────────────────
+    // Sits under the volume pane; same time mapping as the plot, own range.
+    if (hasOscillator && oscSpecNow && !isMultiNow) {
+      oscillatorClearedSV.value = 0;
+      const oscState = oscillatorStateSV.value;
+      updateOscillatorValues(oscState, indicatorSource, oscSpecNow);
+      updateOscillatorTargetRange(oscState, indicatorSource, start, rightEdge);
+      if (oscRangeInitedSV.value === 0) {
+        oscRangeMinSV.value = oscState.targetMin;
+        oscRangeMaxSV.value = oscState.targetMax;
+        oscRangeInitedSV.value = 1;
+      } else {
+        oscRangeMinSV.value = alphaLerp(
+          oscRangeMinSV.value,
+          oscState.targetMin,
+          OSC_RANGE_LERP_SPEED,
+          ratio,
+        );
+        oscRangeMaxSV.value = alphaLerp(
+          oscRangeMaxSV.value,
+          oscState.targetMax,
+          OSC_RANGE_LERP_SPEED,
+          ratio,
+        );
+      }
+      const oscMin = oscRangeMinSV.value;
+      const oscMax = oscRangeMaxSV.value;
+      const oscSpan = Math.max(1e-9, oscMax - oscMin);
+      const paneTop = height - padding.bottom + volumePaneHeight + SUB_PANE_GAP;
+      const paneH = Math.max(1, oscillatorPaneHeight - SUB_PANE_GAP);
+
+      oscLinePathSV.value.rewind();
+      oscSignalPathSV.value.rewind();
+      oscHistUpPathSV.value.rewind();
+      oscHistDownPathSV.value.rewind();
+      oscGuidePathSV.value.rewind();
+      oscBandPathSV.value.rewind();
+      buildOscillatorPaths(
+        {
+          line: oscLinePathSV.value,
+          signal: oscSignalPathSV.value,
+          histUp: oscHistUpPathSV.value,
+          histDown: oscHistDownPathSV.value,
+          guides: oscGuidePathSV.value,
+          band: oscBandPathSV.value,
+        },
+        oscState,
+        indicatorSource,
+        start,
+        rightEdge,
+        padding.left,
+        paneTop,
+        innerWidth,
+        paneH,
+        oscMin,
+        oscSpan,
+      );
+      oscLinePathSV.modify(undefined, true);
+      oscSignalPathSV.modify(undefined, true);
+      oscHistUpPathSV.modify(undefined, true);
+      oscHistDownPathSV.modify(undefined, true);
+      oscGuidePathSV.modify(undefined, true);
+      oscBandPathSV.modify(undefined, true);
+
+      const readout = oscillatorReadout(
+        oscState,
+        indicatorSource,
+        indicatorHoverActive ? indicatorHoverT : rightEdge,
+      );
+      if (readout !== oscReadoutSV.value) oscReadoutSV.value = readout;
+
+      if (showGrid) {
+        const oscGridOut = oscGridResultSV.value;
+        updateGridSlots(
+          oscGridSlotsSV.value,
+          oscGridIntervalSV.value,
+          oscMin,
+          oscMax,
+          oscSpan,
+          paneTop + paneH,
+          paneH,
+          paneTop,
+          0,
+          ratio,
+          gridTimeReveal,
+          formatOscillatorValue,
+          null,
+          null,
+          oscGridScratchSV.value,
+          oscGridOut,
+        );
+        oscGridIntervalSV.value = oscGridOut.interval;
+        if (oscGridOut.dirty) oscGridSlotsSV.modify(undefined, true);
+      } else if (fadeOutGridSlots(oscGridSlotsSV.value, ratio)) {
+        oscGridSlotsSV.modify(undefined, true);
+      }
+    } else if (oscillatorClearedSV.value === 0) {
+      oscillatorClearedSV.value = 1;
+      oscRangeInitedSV.value = 0;
+      oscReadoutSV.value = "";
+      rewindPath(oscLinePathSV);
+      rewindPath(oscSignalPathSV);
+      rewindPath(oscHistUpPathSV);
+      rewindPath(oscHistDownPathSV);
+      rewindPath(oscGuidePathSV);
+      rewindPath(oscBandPathSV);
+      const oscSlots = oscGridSlotsSV.value;
+      for (let i = 0; i < oscSlots.length; i++) oscSlots[i].alpha = 0;
+      oscGridSlotsSV.modify(undefined, true);
+    }
+
     // ── Multi-series pipeline ──────────────────────────────────────────
     if (isMultiNow) {
       const sBufs = seriesBuffersSV.value;
@@ -2252,9 +3577,11 @@ export function useLivelineEngine(input: EngineInput) {
       const sColors = seriesColorsSV.value;
       const sLabels = seriesLabelsSV.value;
       const sValues = seriesValuesSV.value;
-      const sCount = Math.min(sBufs.length, MAX_SERIES);
+      const sAxes = seriesAxesSV.value;
+      const sCount = Math.min(sBufs.length, seriesPathSVs.length);
       const hiddenIds = hiddenSeriesIdsSV.value;
       const slots = seriesSlotsSV.value;
+      while (slots.length < sCount) slots.push(createSeriesSlot());
 
       activeSeriesCountSV.value = sCount;
 
@@ -2271,7 +3598,7 @@ export function useLivelineEngine(input: EngineInput) {
       };
 
       // Per-series smooth values and visibility alpha
-      for (let i = 0; i < MAX_SERIES; i++) {
+      for (let i = 0; i < slots.length; i++) {
         const slot = slots[i];
         if (i >= sCount) {
           slot.active = 0;
@@ -2308,27 +3635,77 @@ export function useLivelineEngine(input: EngineInput) {
         }
       }
 
-      // Global range from all visible series
+      // Global range from all visible series (in index space on a percent
+      // scale, so series of any magnitude share the axis). Left-axis series
+      // get their own range while both axes have a visible series.
+      const percentBases = seriesPercentBasesSV.value;
+      const multiSpan = Math.max(1e-6, rightEdge - start);
       let multiMin = Number.POSITIVE_INFINITY;
       let multiMax = Number.NEGATIVE_INFINITY;
-      for (let i = 0; i < sCount; i++) {
-        if (slots[i].alpha < 0.01) continue;
-        const buf = sBufs[i];
-        const cnt = sCounts[i];
-        if (cnt === 0) continue;
-        const first = findFirstPointIndexAtOrAfter(buf, cnt, start - 2);
-        const last = findLastPointIndexAtOrBefore(buf, cnt, filterRight);
-        const safeFirst = clampIndex(first, 0, cnt - 1);
-        const safeLast = clampIndex(last, -1, cnt - 1);
-        for (let j = safeFirst; j <= safeLast; j++) {
-          const v = ptV(buf, j);
-          if (v < multiMin) multiMin = v;
-          if (v > multiMax) multiMax = v;
+      let leftMin = Number.POSITIVE_INFINITY;
+      let leftMax = Number.NEGATIVE_INFINITY;
+      if (stacked) {
+        // Stacked extent from the cumulative layer tops
+        const stackExtent = rangeScratchSV.value;
+        sampleStackedSeries(
+          stackScratchSV.value,
+          sBufs,
+          sCounts,
+          slots,
+          sCount,
+          start,
+          multiSpan,
+          domainTarget,
+          innerWidth,
+          stackShare,
+          stackExtent,
+        );
+        multiMin = stackExtent.min;
+        multiMax = stackExtent.max;
+      } else {
+        for (let i = 0; i < sCount; i++) {
+          percentBases[i] = Number.NaN;
+          if (slots[i].alpha < 0.01) continue;
+          const buf = sBufs[i];
+          const cnt = sCounts[i];
+          if (cnt === 0) continue;
+          const first = findFirstPointIndexAtOrAfter(buf, cnt, start - 2);
+          const last = findLastPointIndexAtOrBefore(buf, cnt, filterRight);
+          const safeFirst = clampIndex(first, 0, cnt - 1);
+          const safeLast = clampIndex(last, -1, cnt - 1);
+          let indexScale = 1;
+          if (percentScale) {
+            const base =
+              safeFirst <= safeLast
+                ? ptV(buf, safeFirst)
+                : slots[i].displayValue;
+            if (base > 0) {
+              percentBases[i] = base;
+              indexScale = 100 / base;
+            }
+          }
+          let lo = slots[i].displayValue * indexScale;
+          let hi = lo;
+          for (let j = safeFirst; j <= safeLast; j++) {
+            const v = ptV(buf, j) * indexScale;
+            if (v < lo) lo = v;
+            if (v > hi) hi = v;
+          }
+          if (!percentScale && sAxes[i] === 1) {
+            if (lo < leftMin) leftMin = lo;
+            if (hi > leftMax) leftMax = hi;
+          } else {
+            if (lo < multiMin) multiMin = lo;
+            if (hi > multiMax) multiMax = hi;
+          }
         }
-        // Include live value
-        const lv = slots[i].displayValue;
-        if (lv < multiMin) multiMin = lv;
-        if (lv > multiMax) multiMax = lv;
+      }
+
+      const leftActive = Number.isFinite(leftMin) && Number.isFinite(multiMin);
+      if (!leftActive && Number.isFinite(leftMin)) {
+        // Only left-axis series visible: they take the main axis
+        multiMin = leftMin;
+        multiMax = leftMax;
       }
 
       if (!Number.isFinite(multiMin) || !Number.isFinite(multiMax)) {
@@ -2336,45 +3713,121 @@ export function useLivelineEngine(input: EngineInput) {
         multiMax = 1;
       }
 
-      const multiRawRange = multiMax - multiMin;
-      const multiMargin = exaggerate ? 0.01 : 0.12;
-      const multiMinRange = Math.max(
-        multiRawRange * (exaggerate ? 0.02 : 0.1),
-        exaggerate ? 0.04 : 0.4,
-      );
-      let multiTargetMin: number;
-      let multiTargetMax: number;
-      if (multiRawRange < multiMinRange) {
-        const mid = (multiMin + multiMax) / 2;
-        multiTargetMin = mid - multiMinRange / 2;
-        multiTargetMax = mid + multiMinRange / 2;
+      const multiTarget = rangeScratchSV.value;
+      if (stackShare) {
+        multiTarget.min = 0;
+        multiTarget.max = 100;
       } else {
-        multiTargetMin = multiMin - multiRawRange * multiMargin;
-        multiTargetMax = multiMax + multiRawRange * multiMargin;
+        fitSeriesRange(multiTarget, multiMin, multiMax, exaggerate, logScale);
+        // Keep non-negative stacks sitting on the bottom edge
+        if (stacked && multiMin >= 0) {
+          multiTarget.min = Math.max(multiTarget.min, 0);
+        }
       }
+      constrainRange(
+        multiTarget,
+        domainMin,
+        domainMax,
+        includeZero,
+        yStretch,
+        logScale,
+      );
+      const multiTargetMin = multiTarget.min;
+      const multiTargetMax = multiTarget.max;
 
       if (multiSeriesRangeInitedSV.value === 0) {
         nextRangeMin = multiTargetMin;
         nextRangeMax = multiTargetMax;
         multiSeriesRangeInitedSV.value = 1;
       } else {
-        const curRng = Math.max(1e-6, curRangeMax - curRangeMin);
-        const snapTh = curRng * 0.5;
-        nextRangeMin =
-          multiTargetMin < curRangeMin && curRangeMin - multiTargetMin > snapTh
-            ? multiTargetMin
-            : curRangeMin + (multiTargetMin - curRangeMin) * alpha;
-        nextRangeMax =
-          multiTargetMax > curRangeMax && multiTargetMax - curRangeMax > snapTh
-            ? multiTargetMax
-            : curRangeMax + (multiTargetMax - curRangeMax) * alpha;
+        approachSeriesRange(
+          multiTarget,
+          curRangeMin,
+          curRangeMax,
+          multiTargetMin,
+          multiTargetMax,
+          alpha,
+        );
+        nextRangeMin = multiTarget.min;
+        nextRangeMax = multiTarget.max;
+      }
+
+      // Left axis: this frame draws with the current range (or the target
+      // on the first frame), then steps toward the target
+      let leftRangeMin = leftRangeMinSV.value;
+      let leftRangeSpan = Math.max(1e-6, leftRangeMaxSV.value - leftRangeMin);
+      if (leftActive) {
+        const leftTarget = rangeScratchSV.value;
+        fitSeriesRange(leftTarget, leftMin, leftMax, exaggerate, logScale);
+        constrainRange(
+          leftTarget,
+          Number.NaN,
+          Number.NaN,
+          includeZero,
+          yStretch,
+          logScale,
+        );
+        if (leftRangeInitedSV.value === 0) {
+          leftRangeInitedSV.value = 1;
+          leftRangeMinSV.value = leftTarget.min;
+          leftRangeMaxSV.value = leftTarget.max;
+          leftRangeMin = leftTarget.min;
+          leftRangeSpan = Math.max(1e-6, leftTarget.max - leftTarget.min);
+        } else {
+          approachSeriesRange(
+            leftTarget,
+            leftRangeMinSV.value,
+            leftRangeMaxSV.value,
+            leftTarget.min,
+            leftTarget.max,
+            alpha,
+          );
+          leftRangeMinSV.value = leftTarget.min;
+          leftRangeMaxSV.value = leftTarget.max;
+        }
+      } else {
+        leftRangeInitedSV.value = 0;
+      }
+
+      if (showGrid && leftActive) {
+        const leftGridOut = leftGridResultSV.value;
+        updateGridSlots(
+          leftGridSlotsSV.value,
+          leftGridIntervalSV.value,
+          leftRangeMin,
+          leftRangeMin + leftRangeSpan,
+          leftRangeSpan,
+          height,
+          innerHeight,
+          padding.top,
+          padding.bottom,
+          ratio,
+          gridTimeReveal,
+          formatLeftValueWorklet,
+          valueScale,
+          localeSV.value,
+          leftGridScratchSV.value,
+          leftGridOut,
+        );
+        leftGridIntervalSV.value = leftGridOut.interval;
+        if (leftGridOut.dirty) leftGridSlotsSV.modify(undefined, true);
+      } else if (fadeOutGridSlots(leftGridSlotsSV.value, ratio)) {
+        leftGridSlotsSV.modify(undefined, true);
       }
 
       // Per-series path building
-      const multiSpan = Math.max(1e-6, rightEdge - start);
-      for (let i = 0; i < MAX_SERIES; i++) {
+      const seriesLiveX =
+        padding.left + ((domainTarget - start) / multiSpan) * innerWidth;
+      // Spline buffer of the last stacked layer drawn: the next band's floor
+      let stackFloor: SplineBuffer | null = null;
+      for (let i = 0; i < seriesPathSVs.length; i++) {
         const sp = seriesPathSVs[i].value;
         sp.rewind();
+        const band = seriesBandPathSVs[i].value;
+        if (!band.isEmpty()) {
+          band.rewind();
+          seriesBandPathSVs[i].modify(undefined, true);
+        }
         if (i >= sCount || slots[i].alpha < 0.01) {
           seriesPathSVs[i].modify(undefined, true);
           continue;
@@ -2385,40 +3838,97 @@ export function useLivelineEngine(input: EngineInput) {
           seriesPathSVs[i].modify(undefined, true);
           continue;
         }
-        const first = findFirstPointIndexAtOrAfter(buf, cnt, start - 2);
-        const last = findLastPointIndexAtOrBefore(buf, cnt, filterRight);
-        const safeFirst = clampIndex(first, 0, cnt - 1);
-        const safeLast = clampIndex(last, -1, cnt - 1);
-
-        const seriesLiveX =
-          padding.left + ((domainTarget - start) / multiSpan) * innerWidth;
-        const seriesLiveY =
-          padding.top +
-          (1 - (slots[i].displayValue - rangeMin) / Math.max(rangeSpan, 1e-6)) *
-            innerHeight;
-
-        buildSmoothPathFromVisiblePoints(
-          sp,
-          buf,
-          cnt,
-          safeFirst,
-          safeLast,
-          start,
-          multiSpan,
-          innerWidth,
-          innerHeight,
-          rangeMin,
-          rangeSpan,
-          padding.left,
-          padding.top,
-          seriesLiveX,
-          seriesLiveY,
-          chartReveal,
-          centerY,
-          loadingAmplitude,
-          loadingScroll,
-          seriesSplineSVs[i].value,
-        );
+        let seriesLiveY: number;
+        if (stacked) {
+          seriesLiveY = buildStackedLayerPaths(
+            sp,
+            band,
+            stackScratchSV.value,
+            i,
+            stackFloor,
+            rangeMin,
+            rangeSpan,
+            start,
+            multiSpan,
+            innerWidth,
+            innerHeight,
+            padding.left,
+            padding.top,
+            seriesLiveX,
+            chartReveal,
+            centerY,
+            loadingAmplitude,
+            loadingScroll,
+            seriesSplineSVs[i].value,
+          );
+          stackFloor = seriesSplineSVs[i].value;
+          seriesBandPathSVs[i].modify(undefined, true);
+        } else {
+          const first = findFirstPointIndexAtOrAfter(buf, cnt, start - 2);
+          const last = findLastPointIndexAtOrBefore(buf, cnt, filterRight);
+          let safeFirst = clampIndex(first, 0, cnt - 1);
+          let safeLast = clampIndex(last, -1, cnt - 1);
+          let seriesPts = buf;
+          let seriesCount = cnt;
+          const seriesLodCount = decimateVisibleSlice(
+            decimation,
+            buf,
+            safeFirst,
+            safeLast,
+            start,
+            rightEdge,
+            innerWidth,
+            lodBuffer,
+          );
+          if (seriesLodCount > 0) {
+            seriesPts = lodBuffer;
+            seriesCount = seriesLodCount;
+            safeFirst = 0;
+            safeLast = seriesLodCount - 1;
+          }
+
+          // Axis (index space on a percent scale) → this series' values
+          const onLeft = leftActive && sAxes[i] === 1;
+          const valuesPerIndex = Number.isFinite(percentBases[i])
+            ? percentBases[i] / 100
+            : 1;
+          const seriesRangeMin =
+            (onLeft ? leftRangeMin : rangeMin) * valuesPerIndex;
+          const seriesRangeSpan =
+            (onLeft ? leftRangeSpan : rangeSpan) * valuesPerIndex;
+          seriesLiveY = valueToY(
+            slots[i].displayValue,
+            seriesRangeMin,
+            seriesRangeSpan,
+            padding.top,
+            innerHeight,
+            logScale,
+          );
+
+          buildSmoothPathFromVisiblePoints(
+            sp,
+            seriesPts,
+            seriesCount,
+            safeFirst,
+            safeLast,
+            start,
+            multiSpan,
+            innerWidth,
+            innerHeight,
+            seriesRangeMin,
+            seriesRangeSpan,
+            logScale,
+            padding.left,
+            padding.top,
+            seriesLiveX,
+            seriesLiveY,
+            chartReveal,
+            centerY,
+            loadingAmplitude,
+            loadingScroll,
+            seriesSplineSVs[i].value,
+          );
+        }
         seriesPathSVs[i].modify(undefined, true);
 
         // Per-series dot position
@@ -2467,7 +3977,9 @@ export function useLivelineEngine(input: EngineInput) {
         const mAlphas: number[] = [];
         const mColors: string[] = [];
         const mLabels: string[] = [];
+        const mAxes: number[] = [];
         for (let i = 0; i < sCount; i++) {
+          mAxes.push(leftActive && sAxes[i] === 1 ? 1 : 0);
           mBufs.push(sBufs[i]);
           mCounts.push(sCounts[i]);
           mAlphas.push(slots[i].alpha);
@@ -2486,6 +3998,12 @@ export function useLivelineEngine(input: EngineInput) {
           windowSecsNow,
           rangeMin,
           rangeSpan,
+          valueScale,
+          percentBases,
+          mAxes,
+          leftRangeMin,
+          leftRangeSpan,
+          stacked ? seriesStack : "none",
           padding.left,
           padding.top,
           innerWidth,
@@ -2493,9 +4011,13 @@ export function useLivelineEngine(input: EngineInput) {
           rightmostVisibleDotX,
           scrubAmountSV.value,
           formatValueWorklet,
+          formatLeftValueWorklet,
           formatTimeWorklet,
           formatCrosshairTimeWorklet,
           resolvedCrosshairTimeFormatPreset,
+          timeZoneSV.value,
+          localeSV.value,
+          sessionsSV.value,
           multiCrosshairResultSV.value,
         );
         crosshairOpacitySV.value = multiCrosshairResultSV.value.opacity;
@@ -2503,11 +4025,17 @@ export function useLivelineEngine(input: EngineInput) {
       }
     } else {
       // Reset multi-series state when not in multi mode
+      if (fadeOutGridSlots(leftGridSlotsSV.value, ratio)) {
+        leftGridSlotsSV.modify(undefined, true);
+      }
       if (multiSeriesRangeInitedSV.value !== 0) {
         multiSeriesRangeInitedSV.value = 0;
-        for (let i = 0; i < MAX_SERIES; i++) {
+        leftRangeInitedSV.value = 0;
+        for (let i = 0; i < seriesPathSVs.length; i++) {
           seriesPathSVs[i].value.rewind();
           seriesPathSVs[i].modify(undefined, true);
+          seriesBandPathSVs[i].value.rewind();
+          seriesBandPathSVs[i].modify(undefined, true);
         }
         activeSeriesCountSV.value = 0;
       }
@@ -2519,21 +4047,45 @@ export function useLivelineEngine(input: EngineInput) {
     // when paths were built in a separate useDerivedValue.
     const span = Math.max(1e-6, rightEdge - start);
 
+    // Level-of-detail: dense slices are thinned per pixel column first so
+    // spline work stays bounded by plot width, not dataset size.
+    let linePts = pts;
+    let lineCount = ptsCount;
+    let lineFirst = visStart;
+    let lineLast = visEnd;
+    const lodCount = decimateVisibleSlice(
+      decimation,
+      pts,
+      clampIndex(visStart, 0, ptsCount - 1),
+      clampIndex(visEnd, -1, ptsCount - 1),
+      start,
+      rightEdge,
+      innerWidth,
+      lodBuffer,
+    );
+    if (lodCount > 0) {
+      linePts = lodBuffer;
+      lineCount = lodCount;
+      lineFirst = 0;
+      lineLast = lodCount - 1;
+    }
+
     const linePath = linePathSV.value;
     linePath.rewind();
     const splineBuf = splineBufferSV.value;
     buildSmoothPathFromVisiblePoints(
       linePath,
-      pts,
-      ptsCount,
-      visStart,
-      visEnd,
+      linePts,
+      lineCount,
+      lineFirst,
+      lineLast,
       start,
       span,
       innerWidth,
       innerHeight,
       rangeMin,
       rangeSpan,
+      logScale,
       padding.left,
       padding.top,
       liveX,
@@ -2550,15 +4102,16 @@ export function useLivelineEngine(input: EngineInput) {
       const fillPath = fillPathSV.value;
       fillPath.rewind();
 
-      const fillMaxIdx = ptsCount - 1;
-      const firstSafe = clampIndex(visStart, 0, fillMaxIdx);
-      const lastSafe = clampIndex(visEnd, -1, fillMaxIdx);
+      const fillMaxIdx = lineCount - 1;
+      const firstSafe = clampIndex(lineFirst, 0, fillMaxIdx);
+      const lastSafe = clampIndex(lineLast, -1, fillMaxIdx);
       const visibleCount = firstSafe <= lastSafe ? lastSafe - firstSafe + 1 : 0;
 
       let firstX = padding.left;
-      if (visibleCount > 0 && firstSafe < ptsCount) {
+      if (visibleCount > 0 && firstSafe < lineCount) {
         firstX =
-          padding.left + ((ptT(pts, firstSafe) - start) / span) * innerWidth;
+          padding.left +
+          ((ptT(linePts, firstSafe) - start) / span) * innerWidth;
       }
 
       const chartRight = padding.left + innerWidth;
@@ -2577,8 +4130,8 @@ export function useLivelineEngine(input: EngineInput) {
       const fillBuf = fillSplineBufferSV.value;
       buildSmoothPathFromVisiblePoints(
         fillPath,
-        pts,
-        ptsCount,
+        linePts,
+        lineCount,
         firstSafe,
         lastSafe,
         start,
@@ -2587,6 +4140,7 @@ export function useLivelineEngine(input: EngineInput) {
         innerHeight,
         rangeMin,
         rangeSpan,
+        logScale,
         padding.left,
         padding.top,
         liveX,
@@ -2605,6 +4159,51 @@ export function useLivelineEngine(input: EngineInput) {
       rewindPath(fillPathSV);
     }
 
+    // Bars share the line's range and live value; Liveline hides the line
+    // and dot in bar mode
+    if (isBar) {
+      const liveBarTime = candleBucketStart(
+        ptT(pts, ptsCount - 1),
+        candleWidthSecs,
+        timeZoneSV.value,
+        sessionsSV.value,
+      );
+      if (liveBarTime !== barLiveTimeSV.value) {
+        // A newly committed interval rises in from zero
+        if (!Number.isNaN(barLiveTimeSV.value)) barBirthSV.value = 0;
+        barLiveTimeSV.value = liveBarTime;
+      }
+      barBirthSV.value = alphaLerp(barBirthSV.value, 1, 0.2, ratio);
+      barPositivePathSV.value.rewind();
+      barNegativePathSV.value.rewind();
+      buildBarPaths(
+        {
+          positive: barPositivePathSV.value,
+          negative: barNegativePathSV.value,
+        },
+        pts,
+        ptsCount,
+        visStart,
+        visEnd,
+        candleWidthSecs,
+        timeZoneSV.value,
+        sessionsSV.value,
+        innerWidth,
+        innerHeight,
+        padding.left,
+        padding.top,
+        start,
+        rightEdge,
+        rangeMin,
+        rangeSpan,
+        curDisplay,
+        barBirthSV.value,
+        chartReveal,
+      );
+      barPositivePathSV.modify(undefined, true);
+      barNegativePathSV.modify(undefined, true);
+    }
+
     // Build current-price dashed line inside the frame callback (not a
     // separate usePathValue) so it uses the same liveY as the line tip.
     // A derived-value path would lag by one frame, creating ghosting.
@@ -2630,9 +4229,14 @@ export function useLivelineEngine(input: EngineInput) {
       width > 0 &&
       height > 0
     ) {
-      const refY =
-        padding.top +
-        (1 - (referenceLine.value - rangeMin) / rangeSpan) * innerHeight;
+      const refY = valueToY(
+        referenceLine.value,
+        rangeMin,
+        rangeSpan,
+        padding.top,
+        innerHeight,
+        logScale,
+      );
       const rLeft = padding.left;
       const rRight = width - padding.right;
       const hasLabel = !!referenceLine.label && referenceLabelWidth > 0;
@@ -2655,22 +4259,201 @@ export function useLivelineEngine(input: EngineInput) {
     // Reference label Y + opacity
     if (referenceLine && Number.isFinite(referenceLine.value)) {
       referenceLabelYSV.value =
-        padding.top +
-        (1 - (referenceLine.value - rangeMin) / rangeSpan) * innerHeight +
-        4;
+        valueToY(
+          referenceLine.value,
+          rangeMin,
+          rangeSpan,
+          padding.top,
+          innerHeight,
+          logScale,
+        ) + 4;
       referenceLabelOpacitySV.value = chartReveal;
     } else {
       referenceLabelYSV.value = -1000;
       referenceLabelOpacitySV.value = 0;
     }
 
+    // Styled reference lines + bands. Labels dodge the live badge, which
+    // sits at the right edge of the plot.
+    const badgeHalfH = (BADGE_LINE_H + BADGE_PAD_Y * 2) / 2;
+    const badgeCenterY = badgeYSV.value > 0 ? badgeYSV.value : dotYSV.value;
+    const badgeTop = showBadge ? badgeCenterY - badgeHalfH : NaN;
+    const badgeBottom = showBadge ? badgeCenterY + badgeHalfH : NaN;
+    if (
+      updateReferenceLineSlots(
+        referenceLineSlotsSV.value,
+        referenceLineValuesSV.value,
+        overlayRangeMin,
+        overlayRangeSpan,
+        logScale,
+        padding.top,
+        innerHeight,
+        badgeTop,
+        badgeBottom,
+      )
+    ) {
+      referenceLineSlotsSV.modify(undefined, true);
+    }
+    // Depth sidebar, on the same value mapping as the overlays
+    if (depthPaneWidth > 0) {
+      const book = depthBookSV.value;
+      const targetDepth = visibleDepthMax(
+        book,
+        overlayRangeMin,
+        overlayRangeMin + overlayRangeSpan,
+      );
+      depthMaxSV.value =
+        depthMaxSV.value > 0 && targetDepth > 0
+          ? alphaLerp(
+              depthMaxSV.value,
+              targetDepth,
+              DEPTH_MAX_LERP_SPEED,
+              ratio,
+            )
+          : targetDepth;
+      depthBidPathSV.value.rewind();
+      depthAskPathSV.value.rewind();
+      buildDepthPaths(
+        { bids: depthBidPathSV.value, asks: depthAskPathSV.value },
+        book,
+        width - padding.right + SUB_PANE_GAP,
+        Math.max(0, depthPaneWidth - SUB_PANE_GAP),
+        padding.top,
+        innerHeight,
+        overlayRangeMin,
+        overlayRangeSpan,
+        logScale,
+        depthMaxSV.value,
+        chartReveal,
+      );
+      depthBidPathSV.modify(undefined, true);
+      depthAskPathSV.modify(undefined, true);
+
+      if (crosshairOpacitySV.value > 0.01) {
+        const size = depthAtPrice(book, hoverValueSV.value);
+        const formatSize = orderbookOptions.formatSize ?? formatVolume;
+        depthHoverTextSV.value = size === 0 ? "" : formatSize(Math.abs(size));
+        depthHoverBidSV.value = size >= 0 ? 1 : 0;
+      }
+    }
+
+    // Orderbook heatmap, on the same time and value mapping as the overlays
+    const heatmapNow = heatmapSV.value;
+    if (heatmapNow.times.length > 0) {
+      const heatmapPaths = [
+        heatmapPath0SV.value,
+        heatmapPath1SV.value,
+        heatmapPath2SV.value,
+        heatmapPath3SV.value,
+      ];
+      for (let i = 0; i < heatmapPaths.length; i++) heatmapPaths[i].rewind();
+      const extent = heatmapExtentSV.value;
+      buildHeatmapPaths(
+        heatmapPaths,
+        heatmapScratchSV.value,
+        heatmapNow,
+        liveDomainTarget,
+        start,
+        rightEdge,
+        padding.left,
+        padding.top,
+        innerWidth,
+        innerHeight,
+        overlayRangeMin,
+        overlayRangeSpan,
+        logScale,
+        heatmapMaxSV.value,
+        extent,
+      );
+      heatmapMaxSV.value =
+        heatmapMaxSV.value > 0 && extent.max > 0
+          ? alphaLerp(
+              heatmapMaxSV.value,
+              extent.max,
+              HEATMAP_MAX_LERP_SPEED,
+              ratio,
+            )
+          : extent.max;
+      heatmapPath0SV.modify(undefined, true);
+      heatmapPath1SV.modify(undefined, true);
+      heatmapPath2SV.modify(undefined, true);
+      heatmapPath3SV.modify(undefined, true);
+    } else if (heatmapMaxSV.value !== 0) {
+      rewindPath(heatmapPath0SV);
+      rewindPath(heatmapPath1SV);
+      rewindPath(heatmapPath2SV);
+      rewindPath(heatmapPath3SV);
+      heatmapMaxSV.value = 0;
+    }
+
+    const edges = bandEdgesSV.value;
+    if (
+      updatePriceBandSlots(
+        priceBandSlotsSV.value,
+        edges.froms,
+        edges.tos,
+        overlayRangeMin,
+        overlayRangeSpan,
+        logScale,
+        padding.top,
+        innerHeight,
+        badgeTop,
+        badgeBottom,
+      )
+    ) {
+      priceBandSlotsSV.modify(undefined, true);
+    }
+
+    // Event markers ride the same time mapping as the line, so they scroll
+    // with pan and pinch.
+    if (
+      updateMarkerSlots(
+        markerSlotsSV.value,
+        markerOrderSV.value,
+        pts,
+        ptsCount,
+        candlesNow,
+        liveCandleNow,
+        candleWidthSecsSV.value,
+        isCandleNow ? 1 - lineModeProgressSV.value : 0,
+        start,
+        rightEdge,
+        padding.left,
+        padding.top,
+        innerWidth,
+        innerHeight,
+        overlayRangeMin,
+        overlayRangeSpan,
+        logScale,
+      )
+    ) {
+      markerSlotsSV.modify(undefined, true);
+    }
+
+    if (
+      updateTimeRegionSlots(
+        timeRegionSlotsSV.value,
+        timeRegionOrderSV.value,
+        start,
+        rightEdge,
+        padding.left,
+        innerWidth,
+      )
+    ) {
+      timeRegionSlotsSV.modify(undefined, true);
+    }
+
     // Hover vertical line
     const hlPath = hoverLinePathSV.value;
     hlPath.rewind();
     if (scrub && crosshairOpacitySV.value > 0.01 && width > 0 && height > 0) {
       const hx = clamp(hoverXSV.value, padding.left, width - padding.right);
       hlPath.moveTo(hx, padding.top);
-      hlPath.lineTo(hx, height - padding.bottom);
+      // Runs through the sub-panes so every pane shares one crosshair
+      hlPath.lineTo(
+        hx,
+        height - padding.bottom + volumePaneHeight + oscillatorPaneHeight,
+      );
     }
     hoverLinePathSV.modify(undefined, true);
 
@@ -2820,6 +4603,9 @@ export function useLivelineEngine(input: EngineInput) {
   }, Skia.Path.Make());
 
   return {
+    appendPoints,
+    // Session table for mapping imperative times (null without tradingHours)
+    sessions: resolvedSessions,
     pointsBufSV,
     displayValueSV,
     displayWindowSecsSV,
@@ -2827,10 +4613,14 @@ export function useLivelineEngine(input: EngineInput) {
     rangeMaxSV,
     visibleStartIndexSV,
     visibleEndIndexSV,
+    visibleStartSecSV,
+    visibleEndSecSV,
     domainEndSV,
 
     linePathSV,
     fillPathSV,
+    barPositivePathSV,
+    barNegativePathSV,
     oldLinePathSV,
     oldFillPathSV,
     currentLinePathSV,
@@ -2839,6 +4629,10 @@ export function useLivelineEngine(input: EngineInput) {
     referencePathSV,
     referenceLabelYSV,
     referenceLabelOpacitySV,
+    referenceLineSlotsSV,
+    priceBandSlotsSV,
+    markerSlotsSV,
+    timeRegionSlotsSV,
     hoverLinePathSV,
     arrowUpChevron0SV,
     arrowUpChevron1SV,
@@ -2881,8 +4675,17 @@ export function useLivelineEngine(input: EngineInput) {
     pauseProgressSV,
 
     gridSlotsSV,
+    leftGridSlotsSV,
     timeSlotsSV,
     orderbookLabelsSV,
+    depthBidPathSV,
+    depthAskPathSV,
+    heatmapPath0SV,
+    heatmapPath1SV,
+    heatmapPath2SV,
+    heatmapPath3SV,
+    depthHoverTextSV,
+    depthHoverBidSV,
     particlePathHighSV,
     particlePathMidSV,
     particlePathLowSV,
@@ -2904,25 +4707,46 @@ export function useLivelineEngine(input: EngineInput) {
     candleCrosshairHSV,
     candleCrosshairLSV,
     candleCrosshairCSV,
+    candleCrosshairRawSV,
     candleCrosshairTimeSV,
     candleCrosshairBullSV,
+    candleCrosshairVSV,
+    volumeBullPathSV,
+    volumeBearPathSV,
     candleWidthMorphTSV,
+    candleRangeMinSV,
+    candleRangeMaxSV,
     oldCandleBullPathSV,
     oldCandleBearPathSV,
     oldCandleBullWickPathSV,
     oldCandleBearWickPathSV,
 
     // Multi-series mode
-    seriesPath0SV,
-    seriesPath1SV,
-    seriesPath2SV,
-    seriesPath3SV,
-    seriesPath4SV,
-    seriesPath5SV,
-    seriesPath6SV,
-    seriesPath7SV,
+    seriesPathSVs: seriesPathSVs.slice(0, seriesInputCount),
+    seriesBandPathSVs: seriesBandPathSVs.slice(0, seriesInputCount),
     seriesSlotsSV,
     activeSeriesCountSV,
     multiCrosshairResultSV,
+
+    // Indicator overlays
+    indicatorPath0SV,
+    indicatorPath1SV,
+    indicatorPath2SV,
+    indicatorPath3SV,
+    indicatorBandPath0SV,
+    indicatorBandPath1SV,
+    indicatorBandPath2SV,
+    indicatorBandPath3SV,
+    indicatorCrosshairTextsSV,
+
+    // Oscillator pane
+    oscLinePathSV,
+    oscSignalPathSV,
+    oscHistUpPathSV,
+    oscHistDownPathSV,
+    oscGuidePathSV,
+    oscBandPathSV,
+    oscReadoutSV,
+    oscGridSlotsSV,
   };
 }